@@ -0,0 +1,224 @@
+/* eslint-disable @next/next/no-img-element */
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface CompareImageInfo {
+  url: string;
+  size: number; // Bytes
+  width?: number; // Read from the image once it loads when not known
+  height?: number;
+  format?: string;
+}
+
+interface CompareViewerProps {
+  fileName: string;
+  original: CompareImageInfo;
+  processed?: CompareImageInfo; // Unset for images that haven't been processed yet
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+// Each wheel notch or button press multiplies the zoom by this much
+const ZOOM_STEP = 1.25;
+// From this zoom on pixels are drawn as hard squares so compression artefacts and cutout edges can be inspected
+const PIXELATED_ZOOM = 2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+// Keeps the image covering the stage; panning stops at its edges
+const clampOffset = (stage: HTMLElement | null, x: number, y: number, scale: number) => {
+  if (!stage) return { x: 0, y: 0 };
+  const maxX = stage.clientWidth * (scale - 1) / 2;
+  const maxY = stage.clientHeight * (scale - 1) / 2;
+  return { x: clamp(x, -maxX, maxX), y: clamp(y, -maxY, maxY) };
+};
+
+export default function CompareViewer({ fileName, original, processed, onClose }: CompareViewerProps) {
+  const [split, setSplit] = useState(0.5); // Fraction of the width showing the original
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [offset, setOffset] = useState({ x: 0, y: 0 }); // Pan in screen pixels, from the centred position
+  const [originalSize, setOriginalSize] = useState<{ width: number; height: number } | null>(null);
+  const [originalFailed, setOriginalFailed] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const panStartRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  const zoomRef = useRef(zoom);
+  const offsetRef = useRef(offset);
+
+  // HEIC and TIFF originals can't be shown, so the processed output fills the stage instead
+  const showSplit = !!processed && !originalFailed;
+
+  // Zooms around a point given relative to the stage's centre, so what's under the cursor stays put.
+  // Reads only refs, so it stays the same function across renders
+  const zoomTo = useCallback((nextZoom: number, anchorX = 0, anchorY = 0) => {
+    const scale = clamp(nextZoom, MIN_ZOOM, MAX_ZOOM);
+    const ratio = scale / zoomRef.current;
+    const current = offsetRef.current;
+    const next = clampOffset(stageRef.current, anchorX - (anchorX - current.x) * ratio, anchorY - (anchorY - current.y) * ratio, scale);
+    zoomRef.current = scale;
+    offsetRef.current = next;
+    setZoom(scale);
+    setOffset(next);
+  }, []);
+
+  // React's wheel listener is passive, so the page would scroll as well as the image zooming.
+  // Attached once; the handler reads the current zoom from zoomRef
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = stage.getBoundingClientRect();
+      const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      zoomTo(zoomRef.current * factor, e.clientX - rect.left - rect.width / 2, e.clientY - rect.top - rect.height / 2);
+    };
+    stage.addEventListener('wheel', handleWheel, { passive: false });
+    return () => stage.removeEventListener('wheel', handleWheel);
+  }, [zoomTo]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handlePanStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (zoom === MIN_ZOOM) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStartRef.current = { pointerX: e.clientX, pointerY: e.clientY, ...offset };
+  };
+
+  const handlePanMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = panStartRef.current;
+    if (!start) return;
+    const next = clampOffset(stageRef.current, start.x + e.clientX - start.pointerX, start.y + e.clientY - start.pointerY, zoom);
+    offsetRef.current = next;
+    setOffset(next);
+  };
+
+  const handlePanEnd = () => {
+    panStartRef.current = null;
+  };
+
+  // The divider is dragged separately from panning
+  const handleSplitDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    else if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setSplit(clamp((e.clientX - rect.left) / rect.width, 0, 1));
+  };
+
+  // Both layers share one transform, so zoom and pan stay in step
+  const layerStyle: React.CSSProperties = {
+    transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`,
+    imageRendering: zoom >= PIXELATED_ZOOM ? 'pixelated' : undefined,
+  };
+  const imageClass = "absolute inset-0 w-full h-full object-contain select-none";
+
+  const originalWidth = original.width ?? originalSize?.width;
+  const originalHeight = original.height ?? originalSize?.height;
+  const sizeChange = processed && original.size > 0 ? (processed.size - original.size) / original.size * 100 : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black/90 text-white">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3">
+        <p className="text-sm font-semibold truncate">{fileName}</p>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => zoomTo(zoom / ZOOM_STEP)} disabled={zoom === MIN_ZOOM} className="px-3 py-1.5 text-sm rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40" aria-label="Zoom out">&minus;</button>
+          <span className="w-14 text-center text-sm tabular-nums">{Math.round(zoom * 100)}%</span>
+          <button type="button" onClick={() => zoomTo(zoom * ZOOM_STEP)} disabled={zoom === MAX_ZOOM} className="px-3 py-1.5 text-sm rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40" aria-label="Zoom in">+</button>
+          <button type="button" onClick={() => zoomTo(MIN_ZOOM)} className="px-3 py-1.5 text-sm rounded-md bg-white/10 hover:bg-white/20">Fit</button>
+          <button type="button" onClick={onClose} className="px-3 py-1.5 text-sm rounded-md bg-white/10 hover:bg-white/20">Close</button>
+        </div>
+      </div>
+
+      {/* Checkerboard so transparent areas of a cutout stand out from white ones */}
+      <div
+        ref={stageRef}
+        className={`relative flex-1 mx-4 overflow-hidden rounded-lg touch-none bg-[repeating-conic-gradient(#d1d5db_0_25%,#ffffff_0_50%)] bg-[length:16px_16px] ${zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : ''}`}
+        onPointerDown={handlePanStart}
+        onPointerMove={handlePanMove}
+        onPointerUp={handlePanEnd}
+        onPointerCancel={handlePanEnd}
+      >
+        {!originalFailed && (
+          <div className="absolute inset-0" style={layerStyle}>
+            <img
+              src={original.url}
+              alt={`original ${fileName}`}
+              draggable={false}
+              onLoad={(e) => setOriginalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              onError={() => setOriginalFailed(true)}
+              className={imageClass}
+            />
+          </div>
+        )}
+        {processed && (
+          /* Clipped in screen space so the divider stays where it was dragged while zooming */
+          <div className="absolute inset-0" style={{ clipPath: showSplit ? `inset(0 0 0 ${split * 100}%)` : undefined }}>
+            {/* Its own checkerboard, or the original would show through the output's transparent areas */}
+            <div className="absolute inset-0 bg-[repeating-conic-gradient(#d1d5db_0_25%,#ffffff_0_50%)] bg-[length:16px_16px]" />
+            <div className="absolute inset-0" style={layerStyle}>
+              <img src={processed.url} alt={`processed ${fileName}`} draggable={false} className={imageClass} />
+            </div>
+          </div>
+        )}
+        {showSplit && (
+          <>
+            <span className="absolute top-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs pointer-events-none">Original</span>
+            <span className="absolute top-2 right-2 rounded bg-black/60 px-2 py-0.5 text-xs pointer-events-none">Processed</span>
+            <div
+              role="slider"
+              aria-label="Split between original and processed"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(split * 100)}
+              tabIndex={0}
+              onKeyDown={(e) => {
+                if (e.key === 'ArrowLeft') setSplit(prev => clamp(prev - 0.02, 0, 1));
+                if (e.key === 'ArrowRight') setSplit(prev => clamp(prev + 0.02, 0, 1));
+              }}
+              onPointerDown={handleSplitDrag}
+              onPointerMove={handleSplitDrag}
+              className="absolute inset-y-0 -ml-3 w-6 flex justify-center cursor-ew-resize focus:outline-none group"
+              style={{ left: `${split * 100}%` }}
+            >
+              <div className="w-0.5 h-full bg-white shadow-[0_0_4px_rgba(0,0,0,0.6)]" />
+              <div className="absolute top-1/2 -mt-4 w-8 h-8 rounded-full bg-white text-gray-900 text-xs flex items-center justify-center shadow group-focus:ring-2 group-focus:ring-blue-500">&harr;</div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 px-4 py-3 text-xs">
+        <div>
+          <p className="font-semibold">Original</p>
+          <p>{originalWidth && originalHeight ? `${originalWidth}x${originalHeight}` : 'Dimensions unknown'}, {formatBytes(original.size)}{original.format && `, ${original.format.toUpperCase()}`}</p>
+          {originalFailed && <p className="text-yellow-300">This browser can&apos;t display the original</p>}
+        </div>
+        <div className="text-right">
+          <p className="font-semibold">Processed</p>
+          {processed ? (
+            <p>
+              {processed.width && processed.height ? `${processed.width}x${processed.height}` : 'Dimensions unknown'}, {formatBytes(processed.size)}{processed.format && `, ${processed.format.toUpperCase()}`}
+              {sizeChange !== null && <span className={sizeChange <= 0 ? 'text-green-400' : 'text-yellow-300'}> ({sizeChange > 0 ? '+' : ''}{sizeChange.toFixed(0)}%)</span>}
+            </p>
+          ) : (
+            <p className="text-gray-400">Not processed yet</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+/* eslint-disable @next/next/no-img-element */
+"use client";
+
+import { useRef, useState } from "react";
+import type { CropRect, FocalPoint } from "@utils/pipeline";
+
+type EditorMode = 'focal' | 'crop';
+
+interface CropEditorProps {
+  imageUrl: string;
+  fileName: string;
+  focalPoint?: FocalPoint;
+  cropRect?: CropRect;
+  outputAspect: number; // Output width / height, for locking the crop rectangle
+  onApply: (framing: { focalPoint?: FocalPoint; cropRect?: CropRect }) => void;
+  onClose: () => void;
+}
+
+// Drags smaller than this (as a fraction of the image) are treated as clicks
+const MIN_CROP_SIZE = 0.02;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export default function CropEditor({ imageUrl, fileName, focalPoint, cropRect, outputAspect, onApply, onClose }: CropEditorProps) {
+  const [mode, setMode] = useState<EditorMode>(cropRect ? 'crop' : 'focal');
+  const [draftFocal, setDraftFocal] = useState<FocalPoint | undefined>(focalPoint);
+  const [draftCrop, setDraftCrop] = useState<CropRect | undefined>(cropRect);
+  const [lockAspect, setLockAspect] = useState(true);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragStartRef = useRef<FocalPoint | null>(null);
+
+  // Pointer position as a fraction of the displayed image
+  const toImagePoint = (e: React.PointerEvent): FocalPoint | null => {
+    const rect = imageRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const buildCrop = (start: FocalPoint, end: FocalPoint): CropRect => {
+    let width = Math.abs(end.x - start.x);
+    let height = Math.abs(end.y - start.y);
+    const image = imageRef.current;
+    if (lockAspect && image && image.clientHeight > 0) {
+      // Normalised units differ per axis, so convert the output ratio through the image's own ratio
+      const imageAspect = image.clientWidth / image.clientHeight;
+      height = width * imageAspect / outputAspect;
+      const maxHeight = end.y >= start.y ? 1 - start.y : start.y;
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = height * outputAspect / imageAspect;
+      }
+    }
+    return {
+      x: end.x >= start.x ? start.x : start.x - width,
+      y: end.y >= start.y ? start.y : start.y - height,
+      width,
+      height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toImagePoint(e);
+    if (!point) return;
+    if (mode === 'focal') {
+      setDraftFocal(point);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = point;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    const point = toImagePoint(e);
+    if (!start || !point) return;
+    setDraftCrop(buildCrop(start, point));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    dragStartRef.current = null;
+    const point = toImagePoint(e);
+    if (!start || !point) return;
+    const crop = buildCrop(start, point);
+    setDraftCrop(crop.width < MIN_CROP_SIZE || crop.height < MIN_CROP_SIZE ? undefined : crop);
+  };
+
+  const handleClear = () => {
+    setDraftFocal(undefined);
+    setDraftCrop(undefined);
+  };
+
+  const modeButtonClass = (value: EditorMode) =>
+    `px-3 py-1.5 text-sm rounded-md ${mode === value ? 'bg-blue-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl p-6 max-w-3xl w-full mx-4 space-y-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">Framing</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{fileName}</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" onClick={() => setMode('focal')} className={modeButtonClass('focal')}>Focal point</button>
+          <button type="button" onClick={() => setMode('crop')} className={modeButtonClass('crop')}>Crop rectangle</button>
+          {mode === 'crop' && (
+            <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400 ml-2">
+              <input type="checkbox" checked={lockAspect} onChange={(e) => setLockAspect(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-offset-0" />
+              Lock to output aspect ratio
+            </label>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {mode === 'focal'
+            ? "Click the part of the image that must stay in frame. Cover and Crop keep it as close to the centre as the edges allow."
+            : "Drag to draw the area to keep. Only used with the Crop fit."}
+        </p>
+
+        <div className="flex justify-center bg-gray-100 dark:bg-gray-800 rounded-lg p-2">
+          <div
+            className={`relative inline-block select-none touch-none ${mode === 'focal' ? 'cursor-crosshair' : 'cursor-cell'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img ref={imageRef} src={imageUrl} alt={`framing ${fileName}`} draggable={false} className="block max-h-[60vh] max-w-full" />
+            {draftCrop && (
+              /* The huge shadow dims everything outside the rectangle */
+              <div
+                className="absolute border-2 border-white pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                style={{ left: `${draftCrop.x * 100}%`, top: `${draftCrop.y * 100}%`, width: `${draftCrop.width * 100}%`, height: `${draftCrop.height * 100}%` }}
+              />
+            )}
+            {draftFocal && (
+              <div
+                className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-blue-600/70 shadow pointer-events-none"
+                style={{ left: `${draftFocal.x * 100}%`, top: `${draftFocal.y * 100}%` }}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-2">
+          <button type="button" onClick={handleClear} className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600">Clear</button>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600">Cancel</button>
+            <button
+              type="button"
+              onClick={() => onApply({ focalPoint: draftFocal, cropRect: draftCrop })}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
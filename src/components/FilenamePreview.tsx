@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { findInvalidTokens, hashFileContent, parseFilenameTemplate, templateUsesToken, FILENAME_TOKENS } from "@utils/filenameUtils";
+import type { ImageFormat } from "@utils/pipeline";
+
+export interface FilenamePreviewImage {
+  id: string;
+  file: File;
+  previewUrl: string;
+  index: number; // Position in the batch (0-based)
+}
+
+interface FilenamePreviewProps {
+  template: string;
+  images: FilenamePreviewImage[]; // Only the first few are worth showing
+  format: ImageFormat;
+  width: number;
+  height: number;
+  presetName: string | null;
+}
+
+// What the preview has to read the file for; worked out once per image
+interface SourceDetails {
+  width?: number;
+  height?: number;
+  hash?: string;
+}
+
+// Natural size with EXIF orientation applied; undefined for inputs the browser can't show (HEIC, TIFF)
+const readImageSize = async (url: string): Promise<{ width?: number; height?: number }> => {
+  const img = new Image();
+  img.src = url;
+  try {
+    await img.decode();
+    return { width: img.naturalWidth, height: img.naturalHeight };
+  } catch {
+    return {};
+  }
+};
+
+export default function FilenamePreview({ template, images, format, width, height, presetName }: FilenamePreviewProps) {
+  const [details, setDetails] = useState<Record<string, SourceDetails>>({});
+  const [showTokens, setShowTokens] = useState(false);
+  // Date tokens only need to look right, so the time is taken once rather than ticking
+  const [now] = useState(() => Date.now());
+  // "<id>:size" and "<id>:hash" for lookups already started, so re-renders don't repeat them
+  const requestedRef = useRef(new Set<string>());
+  const needsHash = templateUsesToken(template, 'hash');
+  const needsSize = templateUsesToken(template, 'origwidth') || templateUsesToken(template, 'origheight');
+
+  useEffect(() => {
+    const requested = requestedRef.current;
+    const lookup = (image: FilenamePreviewImage, kind: string, read: () => Promise<SourceDetails>) => {
+      const key = `${image.id}:${kind}`;
+      if (requested.has(key)) return;
+      requested.add(key);
+      read().then(found => setDetails(prev => ({ ...prev, [image.id]: { ...prev[image.id], ...found } })));
+    };
+    for (const image of images) {
+      if (needsSize) lookup(image, 'size', () => readImageSize(image.previewUrl));
+      if (needsHash) lookup(image, 'hash', async () => ({ hash: await hashFileContent(image.file) }));
+    }
+  }, [images, needsHash, needsSize]);
+
+  const invalidTokens = findInvalidTokens(template);
+  // Same naming as the workers, short of the "(n)" suffix a clash in the batch would add
+  const previewName = (image: FilenamePreviewImage) => {
+    const source = details[image.id];
+    return parseFilenameTemplate(template || "{name}_{index}", {
+      originalName: image.file.name,
+      originalWidth: source?.width,
+      originalHeight: source?.height,
+      outputWidth: width,
+      outputHeight: height,
+      outputFormat: format,
+      presetName,
+      timestamp: now,
+      index: image.index,
+      size: image.file.size,
+      hash: source?.hash,
+    });
+  };
+
+  return (
+    <div className="mt-1 space-y-1">
+      {invalidTokens.length > 0 && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          Not recognised, left as written: {invalidTokens.join(', ')}
+        </p>
+      )}
+      {images.length > 0 && (
+        <ul className="text-xs text-gray-600 dark:text-gray-400 font-mono space-y-0.5">
+          {images.map(image => <li key={image.id} className="truncate" title={previewName(image)}>{previewName(image)}</li>)}
+        </ul>
+      )}
+      {templateUsesToken(template, 'size') && <p className="text-xs text-gray-500">{'{size}'} is shown from the original file; the output&apos;s size is used when processing</p>}
+      <button type="button" onClick={() => setShowTokens(prev => !prev)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+        {showTokens ? 'Hide variables' : 'Show variables'}
+      </button>
+      {showTokens && (
+        <div className="text-xs text-gray-500 space-y-1">
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+            {FILENAME_TOKENS.map(({ token, description }) => <li key={token}><code>{`{${token}}`}</code> {description}</li>)}
+          </ul>
+          <p>Add a modifier after a colon: <code>{'{date:YYYYMMDD-HHmm}'}</code>, <code>{'{index:000}'}</code>, <code>{'{name:slug}'}</code> (or lower, upper), <code>{'{hash:12}'}</code>.</p>
+          <p>Add a fallback for empty values after a pipe: <code>{'{preset|custom}'}</code>.</p>
+          <p>Use <code>/</code> to put files in subfolders of the ZIP: <code>{'{date:YYYY-MM}/{name}'}</code>.</p>
+        </div>
+      )}
+    </div>
+  );
+}
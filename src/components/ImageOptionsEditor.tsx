@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import type { FitOption, ImageFormat, ImageOverrides } from "@utils/pipeline";
+
+interface ImageOptionsEditorProps {
+  fileName: string;
+  overrides?: ImageOverrides;
+  batch: Required<ImageOverrides>; // The batch settings, shown as the default for each field
+  canEncode: (format: ImageFormat) => boolean;
+  opaqueCutout: boolean; // A replacement background or mask output is set, so cutouts have no transparency and JPEG is fine
+  onApply: (overrides: ImageOverrides | undefined) => void;
+  onClose: () => void;
+}
+
+const FIT_LABELS: Record<FitOption, string> = {
+  cover: 'Cover',
+  contain: 'Contain',
+  crop: 'Crop',
+  'smart-cover': 'Smart Cover',
+};
+
+const FORMAT_LABELS: Record<ImageFormat, string> = {
+  jpeg: 'JPEG',
+  png: 'PNG',
+  webp: 'WebP',
+  avif: 'AVIF',
+};
+
+const inputClass = "mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+const labelClass = "block text-xs text-gray-600 dark:text-gray-400";
+
+// Empty (or out of range) inputs mean "use the batch setting"
+const parseOptionalNumber = (value: string, min: number, max = Infinity): number | undefined => {
+  const num = parseInt(value, 10);
+  return isNaN(num) || num < min ? undefined : Math.min(num, max);
+};
+
+// Drops unset fields so an image with nothing overridden doesn't get an empty object (and a marker)
+const compactOverrides = (overrides: ImageOverrides): ImageOverrides | undefined => {
+  const entries = Object.entries(overrides).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) as ImageOverrides : undefined;
+};
+
+export default function ImageOptionsEditor({ fileName, overrides, batch, canEncode, opaqueCutout, onApply, onClose }: ImageOptionsEditorProps) {
+  const [draft, setDraft] = useState<ImageOverrides>(overrides ?? {});
+  const update = (changes: ImageOverrides) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const effectiveRemoveBackground = draft.removeBackground ?? batch.removeBackground;
+  const effectiveFormat = draft.format ?? batch.format;
+  const keepsTransparency = effectiveRemoveBackground && !opaqueCutout;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl p-6 max-w-md w-full mx-4 space-y-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">Image Options</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{fileName}</p>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Leave a field on its batch value to follow the batch settings.</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="overrideWidth" className={labelClass}>Width</label>
+            <input type="number" id="overrideWidth" min="1" value={draft.width ?? ''} placeholder={`${batch.width}`} onChange={(e) => update({ width: parseOptionalNumber(e.target.value, 1) })} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="overrideHeight" className={labelClass}>Height</label>
+            <input type="number" id="overrideHeight" min="1" value={draft.height ?? ''} placeholder={`${batch.height}`} onChange={(e) => update({ height: parseOptionalNumber(e.target.value, 1) })} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="overrideFit" className={labelClass}>Fit</label>
+            <select id="overrideFit" value={draft.fit ?? ''} onChange={(e) => update({ fit: (e.target.value || undefined) as FitOption | undefined })} className={inputClass}>
+              <option value="">Batch ({FIT_LABELS[batch.fit]})</option>
+              {(Object.keys(FIT_LABELS) as FitOption[]).map(fit => <option key={fit} value={fit}>{FIT_LABELS[fit]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="overrideRadius" className={labelClass}>Corners (px)</label>
+            <input type="number" id="overrideRadius" min="0" value={draft.borderRadius ?? ''} placeholder={`${batch.borderRadius}`} onChange={(e) => update({ borderRadius: parseOptionalNumber(e.target.value, 0) })} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="overrideBackground" className={labelClass}>Background</label>
+            <select
+              id="overrideBackground"
+              value={draft.removeBackground === undefined ? '' : draft.removeBackground ? 'remove' : 'keep'}
+              onChange={(e) => update({ removeBackground: e.target.value === '' ? undefined : e.target.value === 'remove' })}
+              className={inputClass}
+            >
+              <option value="">Batch ({batch.removeBackground ? 'Remove' : 'Keep'})</option>
+              <option value="keep">Keep</option>
+              <option value="remove">Remove</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="overrideFormat" className={labelClass}>Format</label>
+            <select id="overrideFormat" value={draft.format ?? ''} onChange={(e) => update({ format: (e.target.value || undefined) as ImageFormat | undefined })} className={inputClass}>
+              <option value="">Batch ({FORMAT_LABELS[batch.format]})</option>
+              {(Object.keys(FORMAT_LABELS) as ImageFormat[]).map(format => (
+                <option key={format} value={format} disabled={!canEncode(format) || (format === 'jpeg' && keepsTransparency)}>{FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="col-span-2">
+            <label htmlFor="overrideQuality" className={labelClass}>Quality</label>
+            <input type="number" id="overrideQuality" min="0" max="100" value={draft.quality ?? ''} placeholder={`${batch.quality}`} onChange={(e) => update({ quality: parseOptionalNumber(e.target.value, 0, 100) })} className={inputClass} disabled={effectiveFormat === 'png'} />
+          </div>
+        </div>
+        {keepsTransparency && effectiveFormat === 'jpeg' && <p className="text-xs text-gray-500">JPEG can&apos;t hold transparency, so this image will be saved as PNG</p>}
+
+        <div className="flex justify-between gap-2">
+          <button type="button" onClick={() => setDraft({})} className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600">Use batch settings</button>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600">Cancel</button>
+            <button
+              type="button"
+              onClick={() => onApply(compactOverrides(draft))}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,25 +1,51 @@
 /* eslint-disable @next/next/no-img-element */
 "use client";
 
-import { useCallback, useState, useEffect } from "react";
-import { useDropzone } from "react-dropzone";
-import { createImageWorker } from "@utils/imageWorker";
+import { useCallback, useState, useEffect, useMemo, useRef } from "react";
+import { useDropzone, type FileRejection } from "react-dropzone";
+import { runWorkerPool, type WorkerPool } from "@utils/workerPool";
+import { createPresetKey, exportPresets, loadUserPresets, parsePresetFile, readImageForPreset, saveUserPresets, MAX_BACKGROUND_SIDE, MAX_WATERMARK_SIDE } from "@utils/presetStorage";
+import { BUILT_IN_ENCODERS, detectEncoderSupport, type EncoderSupport } from "@utils/formatSupport";
+import { ICON_SET_SPECS, addIconSetFiles } from "@utils/iconSets";
+import { ACCEPTED_INPUT_TYPES, NATIVE_INPUT_KINDS, inspectInputFile, rasterizeSvg, type InputKind } from "@utils/inputDecoding";
+import { DEFAULT_FLOOD_FILL, type EdgeSampling } from "@utils/floodFill";
+import { getUniqueFilename } from "@utils/filenameUtils";
+import { buildManifestFiles, describeSettings, exportZipArchives, writeZipArchive, type ManifestEntry, type ManifestFormat, type ZipCompression, type ZipExportItem } from "@utils/zipExport";
+import { clearSession, getStorageUsage, loadSession, requestPersistentStorage, saveSession, type SavedSession, type StorageUsage } from "@utils/sessionStore";
+import { ensureWritePermission, getLastOutputFolder, isFolderExportSupported, isZipFileSaveSupported, openZipFile, pickOutputFolder, saveFilesToFolder, type ExistingFileRule, type FolderExportFile } from "@utils/folderExport";
+import { FIT_OPTIONS, IMAGE_FORMATS, METADATA_MODES, applyOverrides, isNumberInRange, parseBackground, parseRemoval, parseWatermark } from "@utils/pipeline";
+import type {
+  BackgroundSettings,
+  BatchSummary,
+  CropRect,
+  FitOption,
+  FocalPoint,
+  ImageFormat,
+  ImageOverrides,
+  ImglyModel,
+  MetadataMode,
+  PipelineStage,
+  ProcessOptions,
+  RemovalOutput,
+  RemovalSettings,
+  WatermarkPosition,
+  WatermarkSettings,
+} from "@utils/pipeline";
 import JSZip from "jszip";
 import { saveAs } from "file-saver";
+import CropEditor from "@components/CropEditor";
+import CompareViewer from "@components/CompareViewer";
+import ImageOptionsEditor from "@components/ImageOptionsEditor";
+import FilenamePreview from "@components/FilenamePreview";
 
 // --- Type Definitions ---
 
 
-export type ImageFormat = 'jpeg' | 'png' | 'webp';
-export type FitOption = 'contain' | 'cover' | 'crop';
-
-
-
-
-
 type ImageState = {
   id: string; // Unique ID for stable keys and removal
   originalFile: File;
+  inputKind: InputKind; // Detected from the file's bytes when it was dropped
+  page?: number; // Page of a multi-page TIFF (0-based)
   originalPreview: string;
   processedBlob?: Blob;
   currentPreview: string;
@@ -29,49 +55,221 @@ type ImageState = {
   processedWidth?: number;
   processedHeight?: number;
   processedFormat?: ImageFormat; // Stores the actual format after processing (e.g., if JPEG forced to PNG)
+  processedQuality?: number; // Quality actually used, which the max file size search may have lowered
+  targetSizeMet?: boolean; // False when the max file size couldn't be reached
+  rotatedFromExif?: boolean;
+  processedOptions?: ProcessOptions; // What the image was processed with, for the ZIP manifest
+  error?: { stage?: PipelineStage; message: string }; // Set when the last run failed for this image; no stage if it never got to run
+  focalPoint?: FocalPoint; // Kept in frame by cover and crop
+  cropRect?: CropRect; // Used by the crop fit
+  overrides?: ImageOverrides; // Only set when at least one option differs from the batch
+  outputs?: ImageOutput[]; // One per preset in a multi-preset run, in the order the presets were selected
+  iconSet?: boolean; // The outputs are an app icon set and need its descriptor files when zipped
+  history?: ImageVersion[]; // Results of earlier runs, oldest first
+  historyIndex?: number; // The version the card shows; undo and redo move it
 };
 
-interface Preset {
-  name: string;
-  width: number;
-  height: number;
-  fit: FitOption;
-  radius?: number;
+// What a finished run left on an image; undo and redo swap these fields in and out
+type ImageVersion = Pick<ImageState,
+  'processedBlob' | 'processedFileName' | 'processedSize' | 'processedWidth' | 'processedHeight' | 'processedFormat' |
+  'processedQuality' | 'targetSizeMet' | 'rotatedFromExif' | 'processedOptions' | 'outputs' | 'iconSet'
+> & { createdAt: number };
+
+// What's kept of an image between visits; object URLs don't survive a reload, so previews are recreated on restore
+type StoredImage = Omit<ImageState, 'originalPreview' | 'currentPreview'>;
+
+const toStoredImage = (image: ImageState): StoredImage => {
+  const stored: Partial<ImageState> = { ...image };
+  delete stored.originalPreview;
+  delete stored.currentPreview;
+  return stored as StoredImage;
+};
+
+const snapshotVersion = (image: ImageState): ImageVersion => ({
+  processedBlob: image.processedBlob,
+  processedFileName: image.processedFileName,
+  processedSize: image.processedSize,
+  processedWidth: image.processedWidth,
+  processedHeight: image.processedHeight,
+  processedFormat: image.processedFormat,
+  processedQuality: image.processedQuality,
+  targetSizeMet: image.targetSizeMet,
+  rotatedFromExif: image.rotatedFromExif,
+  processedOptions: image.processedOptions,
+  outputs: image.outputs,
+  iconSet: image.iconSet,
+  createdAt: Date.now(),
+});
+
+// Adds the image's current results as its newest version, dropping anything that had been undone
+const recordVersion = (image: ImageState): ImageState => {
+  const kept = (image.history ?? []).slice(0, (image.historyIndex ?? -1) + 1);
+  const history = [...kept, snapshotVersion(image)].slice(-MAX_IMAGE_VERSIONS);
+  return { ...image, history, historyIndex: history.length - 1 };
+};
+
+// Puts an earlier (or later) version's results back on the card
+const showVersion = (image: ImageState, index: number): ImageState => {
+  const version = image.history?.[index];
+  if (!version) return image;
+  const fields: Partial<ImageVersion> = { ...version };
+  delete fields.createdAt;
+  if (image.processedBlob) URL.revokeObjectURL(image.currentPreview);
+  return {
+    ...image,
+    ...fields,
+    historyIndex: index,
+    error: undefined,
+    currentPreview: version.processedBlob ? URL.createObjectURL(version.processedBlob) : image.originalPreview,
+  };
+};
+
+// Short summary of what an output was made with, e.g. "512x512 cover, JPEG q90, background removed"
+const describeOptions = (options: ProcessOptions): string => {
+  const parts: string[] = [];
+  if (options.resize) parts.push(`${options.resize.width}x${options.resize.height} ${options.resize.fit}`);
+  parts.push(options.format === 'png' || options.quality === undefined ? options.format.toUpperCase() : `${options.format.toUpperCase()} q${options.quality}`);
+  if (options.borderRadius) parts.push(`corners ${options.borderRadius}px`);
+  if (options.removeBackground) {
+    parts.push(options.background ? `background replaced (${options.background.type})` : 'background removed');
+  }
+  if (options.watermark) parts.push(`${options.watermark.type} watermark`);
+  if (options.maxFileSizeKB) parts.push(`max ${options.maxFileSizeKB}KB`);
+  if (options.metadata && options.metadata !== 'strip') parts.push(`metadata: ${options.metadata}`);
+  return parts.join(', ');
+};
+
+// Option values saved with the session
+interface SessionSettings {
+  resizeDimensions: { width: number, height: number };
+  borderRadius: number;
+  format: ImageFormat;
+  quality: number;
+  fitOption: FitOption;
+  selectedPreset: string | null;
+  removeBackground: boolean;
+  subjectPadding: number;
+  filenameTemplate: string;
+  maxFileSizeKB: number;
+  allowDownscale: boolean;
+  metadataMode: MetadataMode;
+  watermark: WatermarkSettings;
+  background: BackgroundSettings;
+  removal: RemovalSettings;
+  multiPresetMode: boolean;
+  iconSetMode: boolean;
+  exportPresetKeys: string[];
+  zipCompression: ZipCompression;
+  manifestFormat: ManifestFormat;
+  splitSizeMB: number;
+  existingFileRule: ExistingFileRule;
 }
 
-// --- Worker Communication Types ---
-// Update this to match the worker's output
-interface ProcessedImageResult {
+export interface ImageOutput {
+  presetKey: string;
+  presetName: string;
+  folder: string; // Where the output goes in the ZIP
   blob: Blob;
-  filename: string;
+  fileName: string;
+  size: number;
   width: number;
   height: number;
-  size: number;
-  originalId: string; // Add originalId to match results back
+  format: ImageFormat;
+  quality?: number;
+  targetSizeMet?: boolean;
+  options: ProcessOptions; // What the output was processed with, for the ZIP manifest
 }
 
-interface ProgressUpdateMessage {
-  type: 'progress';
-  processedCount: number;
-  totalCount: number;
-  imageName: string;
+export interface Preset {
+  name: string;
+  width: number;
+  height: number;
+  fit: FitOption;
+  radius?: number;
+  // Only set on user presets, which capture every setting rather than just the size
+  format?: ImageFormat;
+  quality?: number;
+  removeBackground?: boolean;
+  subjectPadding?: number;
+  filenameTemplate?: string;
+  watermark?: WatermarkSettings;
+  background?: BackgroundSettings;
 }
 
-interface ModelLoadProgressMessage {
-  type: 'model-load-progress';
-  key: string;
-  current: number;
-  total: number;
-}
+// Short summary of an image's overrides for tooltips, e.g. "Fit: contain, Corners: 20px"
+const describeOverrides = (overrides: ImageOverrides): string => {
+  const parts: string[] = [];
+  if (overrides.width !== undefined || overrides.height !== undefined) parts.push(`Size: ${overrides.width ?? 'batch'}x${overrides.height ?? 'batch'}`);
+  if (overrides.fit !== undefined) parts.push(`Fit: ${overrides.fit}`);
+  if (overrides.borderRadius !== undefined) parts.push(`Corners: ${overrides.borderRadius}px`);
+  if (overrides.removeBackground !== undefined) parts.push(`Background: ${overrides.removeBackground ? 'remove' : 'keep'}`);
+  if (overrides.format !== undefined) parts.push(`Format: ${overrides.format.toUpperCase()}`);
+  if (overrides.quality !== undefined) parts.push(`Quality: ${overrides.quality}`);
+  return parts.join(', ');
+};
 
-interface DoneMessage {
-  type: 'done';
-  results: ProcessedImageResult[];
-}
+// Label and check for each saved session setting; a check returns undefined when the stored value can't be used
+type SessionSettingChecks = { [K in keyof SessionSettings]: [label: string, check: (value: unknown) => SessionSettings[K] | undefined] };
+const oneOf = <T,>(list: readonly T[]) => (value: unknown) => list.includes(value as T) ? value as T : undefined;
+const numberIn = (min: number, max: number) => (value: unknown) => isNumberInRange(value, min, max) ? value : undefined;
+const boolean = (value: unknown) => typeof value === 'boolean' ? value : undefined;
+const SESSION_SETTING_CHECKS: SessionSettingChecks = {
+  resizeDimensions: ['Size', value => {
+    const { width, height } = (value ?? {}) as Record<string, unknown>;
+    return isNumberInRange(width, 0, Infinity) && isNumberInRange(height, 0, Infinity) ? { width, height } : undefined;
+  }],
+  borderRadius: ['Corner radius', numberIn(0, Infinity)],
+  format: ['Format', oneOf(IMAGE_FORMATS)],
+  quality: ['Quality', numberIn(0, 100)],
+  fitOption: ['Fit', oneOf(FIT_OPTIONS)],
+  selectedPreset: ['Preset', value => value === null || typeof value === 'string' ? value : undefined],
+  removeBackground: ['Remove background', boolean],
+  subjectPadding: ['Subject padding', numberIn(0, Infinity)],
+  filenameTemplate: ['Filename template', value => typeof value === 'string' ? value : undefined],
+  maxFileSizeKB: ['Max file size', numberIn(0, Infinity)],
+  allowDownscale: ['Allow downscale', boolean],
+  metadataMode: ['Metadata', oneOf(METADATA_MODES)],
+  // The same all-or-nothing parsers the worker applies, so a restored value can't fail the next run
+  watermark: ['Watermark', value => parseWatermark(value) ?? undefined],
+  background: ['Background', value => parseBackground(value) ?? undefined],
+  removal: ['Background removal', value => parseRemoval(value) ?? undefined],
+  multiPresetMode: ['Multi-preset export', boolean],
+  iconSetMode: ['App icon set', boolean],
+  exportPresetKeys: ['Export presets', value => Array.isArray(value) && value.every(key => typeof key === 'string') ? value : undefined],
+  zipCompression: ['ZIP compression', oneOf<ZipCompression>(['store', 'deflate'])],
+  manifestFormat: ['Manifest', oneOf<ManifestFormat>(['none', 'json', 'csv', 'both'])],
+  splitSizeMB: ['Split size', numberIn(0, Infinity)],
+  existingFileRule: ['Existing files', oneOf<ExistingFileRule>(['overwrite', 'skip', 'rename'])],
+};
 
-type WorkerResponse = ProgressUpdateMessage | DoneMessage | ModelLoadProgressMessage;
+/**
+ * Screens a saved session's settings field by field, like presets are screened on load.
+ * Settings saved by an older version or corrupted in storage are left out rather than failing the next run.
+ * @returns The settings that passed, and the labels of any that were dropped
+ */
+const readSessionSettings = (value: unknown): { settings: Partial<SessionSettings>; dropped: string[] } => {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const settings: Partial<SessionSettings> = {};
+  const dropped: string[] = [];
+  const read = <K extends keyof SessionSettings>(key: K) => {
+    if (stored[key] === undefined) return;
+    const [label, check] = SESSION_SETTING_CHECKS[key];
+    const checked = check(stored[key]);
+    if (checked === undefined) dropped.push(label);
+    else settings[key] = checked;
+  };
+  (Object.keys(SESSION_SETTING_CHECKS) as (keyof SessionSettings)[]).forEach(read);
+  return { settings, dropped };
+};
 
 // --- Constants ---
+// How many images the filename template preview lists
+const FILENAME_PREVIEW_COUNT = 3;
+// The session is saved once changes have settled for this long
+const SESSION_SAVE_DELAY_MS = 1000;
+// Versions kept per image; each holds every output blob of a run
+const MAX_IMAGE_VERSIONS = 10;
+
 const defaultOptions = {
   resizeDimensions: { width: 512, height: 512 },
   borderRadius: 0,
@@ -80,9 +278,72 @@ const defaultOptions = {
   fitOption: 'cover' as FitOption,
 
   removeBackground: false,
+  subjectPadding: 10, // % of the subject's size kept on each side by smart cover
   filenameTemplate: "{name}_{index}",
+  maxFileSizeKB: 0, // 0 = no limit
+  zipCompression: 'store' as ZipCompression,
+  manifestFormat: 'none' as ManifestFormat,
+  splitSizeMB: 0, // 0 = one archive however large
+  existingFileRule: 'rename' as ExistingFileRule,
+  allowDownscale: false,
+  metadata: 'strip' as MetadataMode,
+  watermark: {
+    type: 'none',
+    text: '',
+    imageDataUrl: null,
+    position: 'bottom-right',
+    opacity: 50,
+    scale: 20,
+    margin: 16,
+    color: '#FFFFFF',
+  } as WatermarkSettings,
+  background: {
+    type: 'transparent',
+    color: '#FFFFFF',
+    gradientFrom: '#FFFFFF',
+    gradientTo: '#D1D5DB',
+    gradientAngle: 180,
+    imageDataUrl: null,
+    blurRadius: 20,
+    shadow: false,
+    shadowBlur: 24,
+    shadowOffsetY: 12,
+    shadowOpacity: 40,
+  } as BackgroundSettings,
+  removal: {
+    engine: 'imgly',
+    model: 'isnet_quint8',
+    output: 'foreground',
+    ...DEFAULT_FLOOD_FILL,
+  } as RemovalSettings,
+};
+
+// Variant keys for a plain run with mask twins, and the suffix that marks a twin
+const CUTOUT_VARIANT = 'cutout';
+const MASK_VARIANT_SUFFIX = ':mask';
+
+const IMGLY_MODEL_LABELS: Record<ImglyModel, string> = {
+  isnet: 'Full precision (largest download)',
+  isnet_fp16: 'Half precision',
+  isnet_quint8: 'Quantised (smallest, fastest)',
 };
 
+const EDGE_SAMPLING_LABELS: Record<EdgeSampling, string> = {
+  dominant: 'Most common edge colour',
+  corners: 'Average of the corners',
+  local: 'Each edge pixel (gradients)',
+};
+
+// A cutout left transparent can't be saved as JPEG; a filled background or a mask is opaque again
+const keepsTransparency = (removeBackground: boolean, background: BackgroundSettings, removal: RemovalSettings) =>
+  removeBackground && removal.output !== 'mask' && background.type === 'transparent';
+
+const WATERMARK_GRID: WatermarkPosition[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
 const presets: Record<string, Record<string, Preset>> = {
   "App Icons": {
     ios: { name: "iOS App Icon", width: 1024, height: 1024, fit: 'contain', radius: 0 },
@@ -100,6 +361,8 @@ const presets: Record<string, Record<string, Preset>> = {
   },
 };
 
+const USER_PRESETS_CATEGORY = "My Presets";
+
 // --- Component ---
 
 export default function UploadDropzone() {
@@ -116,12 +379,43 @@ export default function UploadDropzone() {
     }
   }, []);
 
+  // Native encoder support per format; null until the startup check finishes
+  const [encoderSupport, setEncoderSupport] = useState<EncoderSupport | null>(null);
+
+  useEffect(() => {
+    detectEncoderSupport().then(setEncoderSupport).catch((err) => {
+      console.error("Failed to detect encoder support", err);
+    });
+  }, []);
+
+  // Can we produce this format at all, natively or with a bundled encoder?
+  const canEncode = (value: ImageFormat) => !encoderSupport || encoderSupport[value] || BUILT_IN_ENCODERS.includes(value);
+  const formatLabel = (value: ImageFormat, label: string) => {
+    if (!encoderSupport || encoderSupport[value]) return label;
+    return BUILT_IN_ENCODERS.includes(value) ? `${label} (built-in encoder)` : `${label} (not supported)`;
+  };
+
 
   const [images, setImages] = useState<ImageState[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [overallProgress, setOverallProgress] = useState(0);
   const [processedImageNames, setProcessedImageNames] = useState<Set<string>>(new Set());
+  const [runImageIds, setRunImageIds] = useState<Set<string>>(new Set()); // The images the current (or last) run is processing
+  const [selectedImageIds, setSelectedImageIds] = useState<Set<string>>(new Set()); // Images ticked for re-processing
   const [modelLoadProgress, setModelLoadProgress] = useState<{ current: number, total: number } | null>(null);
+  const [lastRunSummary, setLastRunSummary] = useState<BatchSummary | null>(null);
+  const [runError, setRunError] = useState<string | null>(null); // Set when a worker crashed and ended the run
+  const [isPaused, setIsPaused] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [zipProgress, setZipProgress] = useState<{ part: number, partCount: number, percent: number } | null>(null);
+  const [zipError, setZipError] = useState<string | null>(null);
+  const [canSaveToFolder, setCanSaveToFolder] = useState(false);
+  const [lastFolder, setLastFolder] = useState<FileSystemDirectoryHandle | null>(null);
+  const [existingFileRule, setExistingFileRule] = useState<ExistingFileRule>(defaultOptions.existingFileRule);
+  const [folderProgress, setFolderProgress] = useState<{ done: number, total: number } | null>(null);
+  const [folderMessage, setFolderMessage] = useState<{ text: string, isError: boolean } | null>(null);
+  const workerPoolRef = useRef<WorkerPool | null>(null);
+  const cancelRequestedRef = useRef(false); // Cancel pressed before the pool started, e.g. while SVGs are rasterised
 
   // Options State
   const [resizeDimensions, setResizeDimensions] = useState<{ width: number, height: number }>(defaultOptions.resizeDimensions);
@@ -132,22 +426,248 @@ export default function UploadDropzone() {
 
   const [selectedPreset, setSelectedPreset] = useState<string | null>(null);
   const [removeBackground, setRemoveBackground] = useState(defaultOptions.removeBackground);
+  const [subjectPadding, setSubjectPadding] = useState(defaultOptions.subjectPadding);
   const [filenameTemplate, setFilenameTemplate] = useState<string>(defaultOptions.filenameTemplate);
+  const [maxFileSizeKB, setMaxFileSizeKB] = useState<number>(defaultOptions.maxFileSizeKB);
+  const [allowDownscale, setAllowDownscale] = useState<boolean>(defaultOptions.allowDownscale);
+  const [metadataMode, setMetadataMode] = useState<MetadataMode>(defaultOptions.metadata);
+  const [zipCompression, setZipCompression] = useState<ZipCompression>(defaultOptions.zipCompression);
+  const [manifestFormat, setManifestFormat] = useState<ManifestFormat>(defaultOptions.manifestFormat);
+  const [splitSizeMB, setSplitSizeMB] = useState<number>(defaultOptions.splitSizeMB);
+  const [watermark, setWatermark] = useState<WatermarkSettings>(defaultOptions.watermark);
+  const [watermarkError, setWatermarkError] = useState<string | null>(null);
+  const [background, setBackground] = useState<BackgroundSettings>(defaultOptions.background);
+  const [backgroundError, setBackgroundError] = useState<string | null>(null);
+  const [removal, setRemoval] = useState<RemovalSettings>(defaultOptions.removal);
+  const [framingImageId, setFramingImageId] = useState<string | null>(null);
+  const [optionsImageId, setOptionsImageId] = useState<string | null>(null);
+  const [compareImageId, setCompareImageId] = useState<string | null>(null);
+  const [multiPresetMode, setMultiPresetMode] = useState(false);
+  const [iconSetMode, setIconSetMode] = useState(false);
+  const [exportPresetKeys, setExportPresetKeys] = useState<string[]>([]);
   const [showInfoModal, setShowInfoModal] = useState<boolean>(false); // New state for info modal
+  const [rejectedFiles, setRejectedFiles] = useState<{ name: string, reason: string }[]>([]);
+  const [userPresets, setUserPresets] = useState<Record<string, Preset>>({});
+  const [presetName, setPresetName] = useState<string>("");
+  const [presetImportError, setPresetImportError] = useState<string | null>(null);
+  const [presetSaveError, setPresetSaveError] = useState<string | null>(null);
+  const presetFileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load saved presets on mount
+  useEffect(() => {
+    setUserPresets(loadUserPresets());
+  }, []);
+
+  // Saved session: offered back on load, then kept up to date as things change
+  const [savedSession, setSavedSession] = useState<SavedSession<Partial<SessionSettings>, StoredImage> | null>(null);
+  const [sessionReady, setSessionReady] = useState(false); // Saving waits until a saved session is restored or discarded
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [sessionWarning, setSessionWarning] = useState<string | null>(null); // Saved settings that couldn't be restored
+  const savedImagesRef = useRef(new Map<string, ImageState>()); // The image objects as last saved, to find what changed
+
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(err => console.warn("Could not read storage usage", err));
+  };
+
+  const applySessionSettings = (storedSettings: unknown) => {
+    const { settings, dropped } = readSessionSettings(storedSettings);
+    setSessionWarning(dropped.length > 0
+      ? `Some saved settings were no longer valid and have been reset: ${dropped.join(', ')}`
+      : null);
+    if (settings.resizeDimensions !== undefined) setResizeDimensions(settings.resizeDimensions);
+    if (settings.borderRadius !== undefined) setBorderRadius(settings.borderRadius);
+    if (settings.format !== undefined) setFormat(settings.format);
+    if (settings.quality !== undefined) setQuality(settings.quality);
+    if (settings.fitOption !== undefined) setFitOption(settings.fitOption);
+    if (settings.selectedPreset !== undefined) setSelectedPreset(settings.selectedPreset);
+    if (settings.removeBackground !== undefined) setRemoveBackground(settings.removeBackground);
+    if (settings.subjectPadding !== undefined) setSubjectPadding(settings.subjectPadding);
+    if (settings.filenameTemplate !== undefined) setFilenameTemplate(settings.filenameTemplate);
+    if (settings.maxFileSizeKB !== undefined) setMaxFileSizeKB(settings.maxFileSizeKB);
+    if (settings.allowDownscale !== undefined) setAllowDownscale(settings.allowDownscale);
+    if (settings.metadataMode !== undefined) setMetadataMode(settings.metadataMode);
+    if (settings.watermark !== undefined) setWatermark(settings.watermark);
+    if (settings.background !== undefined) setBackground(settings.background);
+    if (settings.removal !== undefined) setRemoval(settings.removal);
+    if (settings.multiPresetMode !== undefined) setMultiPresetMode(settings.multiPresetMode);
+    if (settings.iconSetMode !== undefined) setIconSetMode(settings.iconSetMode);
+    if (settings.exportPresetKeys !== undefined) setExportPresetKeys(settings.exportPresetKeys);
+    if (settings.zipCompression !== undefined) setZipCompression(settings.zipCompression);
+    if (settings.manifestFormat !== undefined) setManifestFormat(settings.manifestFormat);
+    if (settings.splitSizeMB !== undefined) setSplitSizeMB(settings.splitSizeMB);
+    if (settings.existingFileRule !== undefined) setExistingFileRule(settings.existingFileRule);
+  };
+
+  // Look for a saved session on mount; one with images is offered back, settings alone are restored quietly
+  useEffect(() => {
+    loadSession<Partial<SessionSettings>, StoredImage>()
+      .then(session => {
+        if (session && session.images.length > 0) {
+          setSavedSession(session);
+          return;
+        }
+        if (session) applySessionSettings(session.settings);
+        setSessionReady(true);
+      })
+      .catch(err => {
+        console.warn("Could not load the saved session", err);
+        setSessionReady(true);
+      });
+    refreshStorageUsage();
+  }, []);
+
+  const handleRestoreSession = () => {
+    if (!savedSession) return;
+    applySessionSettings(savedSession.settings);
+    const restored: ImageState[] = savedSession.images.map(stored => {
+      const originalPreview = URL.createObjectURL(stored.originalFile);
+      return { ...stored, originalPreview, currentPreview: stored.processedBlob ? URL.createObjectURL(stored.processedBlob) : originalPreview };
+    });
+    // Anything dropped while the prompt was open stays, after the restored images
+    setImages(prev => [...restored, ...prev]);
+    // Restored records are already stored, so only later changes are written
+    savedImagesRef.current = new Map(restored.map(img => [img.id, img]));
+    setSavedSession(null);
+    setSessionReady(true);
+  };
+
+  const handleDiscardSession = async () => {
+    setSavedSession(null);
+    try {
+      await clearSession();
+    } catch (err) {
+      console.warn("Could not clear the saved session", err);
+    }
+    setSessionReady(true);
+    refreshStorageUsage();
+  };
+
+  const handleClearSavedSession = async () => {
+    try {
+      await clearSession();
+      // Everything counts as unsaved again, so the next change stores the whole session afresh
+      savedImagesRef.current = new Map();
+      setSessionError(null);
+    } catch (err) {
+      setSessionError(`Couldn't clear the saved session: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    refreshStorageUsage();
+  };
+
+  const sessionSettings = useMemo<SessionSettings>(() => ({
+    resizeDimensions, borderRadius, format, quality, fitOption, selectedPreset, removeBackground, subjectPadding,
+    filenameTemplate, maxFileSizeKB, allowDownscale, metadataMode, watermark, background, removal,
+    multiPresetMode, iconSetMode, exportPresetKeys, zipCompression, manifestFormat, splitSizeMB, existingFileRule,
+  }), [
+    resizeDimensions, borderRadius, format, quality, fitOption, selectedPreset, removeBackground, subjectPadding,
+    filenameTemplate, maxFileSizeKB, allowDownscale, metadataMode, watermark, background, removal,
+    multiPresetMode, iconSetMode, exportPresetKeys, zipCompression, manifestFormat, splitSizeMB, existingFileRule,
+  ]);
+
+  // Save after changes settle; only images whose state object changed are written again
+  useEffect(() => {
+    if (!sessionReady) return;
+    const timer = setTimeout(async () => {
+      const saved = savedImagesRef.current;
+      const changed = images.filter(img => saved.get(img.id) !== img);
+      const currentIds = new Set(images.map(img => img.id));
+      const removedIds = Array.from(saved.keys()).filter(id => !currentIds.has(id));
+      try {
+        await saveSession(sessionSettings, images.map(img => img.id), changed.map(toStoredImage), removedIds);
+        if (saved.size === 0 && images.length > 0) {
+          requestPersistentStorage().catch(err => console.warn("Could not request persistent storage", err));
+        }
+        savedImagesRef.current = new Map(images.map(img => [img.id, img]));
+        setSessionError(null);
+      } catch (err) {
+        console.error("Failed to save the session:", err);
+        setSessionError(`Couldn't save this session, so it won't survive a reload: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      refreshStorageUsage();
+    }, SESSION_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionReady, images, sessionSettings]);
+
+  // Folder saving needs the File System Access API; without it the button falls back to the ZIP download
+  useEffect(() => {
+    if (!isFolderExportSupported()) return;
+    setCanSaveToFolder(true);
+    getLastOutputFolder().then(folder => setLastFolder(folder ?? null));
+  }, []);
+
+  const allPresets: Record<string, Record<string, Preset>> = Object.keys(userPresets).length > 0
+    ? { ...presets, [USER_PRESETS_CATEGORY]: userPresets }
+    : presets;
+  const isUserPresetSelected = selectedPreset !== null && selectedPreset in userPresets;
+  const findPreset = (key: string): Preset | undefined => Object.values(allPresets).find(items => items[key])?.[key];
+  // Outputs made from each image: the selected presets, or every file of an icon set; empty for a normal run
+  const presetVariantKeys = multiPresetMode ? exportPresetKeys.filter(key => findPreset(key)) : [];
+  // With mask output "both", every output that removes the background is followed by its mask twin
+  const withMaskTwins = (keys: string[]) => removal.output === 'both'
+    ? keys.flatMap(key => (findPreset(key)?.removeBackground ?? removeBackground) ? [key, `${key}${MASK_VARIANT_SUFFIX}`] : [key])
+    : keys;
+  const variantKeys = iconSetMode
+    ? ICON_SET_SPECS.map(spec => spec.key)
+    : presetVariantKeys.length > 0
+      ? withMaskTwins(presetVariantKeys)
+      : removal.output === 'both' && removeBackground ? [CUTOUT_VARIANT, `${CUTOUT_VARIANT}${MASK_VARIANT_SUFFIX}`] : [];
+  // Smart cover needs the segmentation model even when the background is kept; the flood-fill engine never does
+  const usesModel = removal.engine === 'imgly' && (removeBackground || fitOption === 'smart-cover'
+    || images.some(({ overrides }) => overrides?.removeBackground || overrides?.fit === 'smart-cover')
+    || presetVariantKeys.some(key => findPreset(key)?.removeBackground || findPreset(key)?.fit === 'smart-cover'));
 
   const toggleInfoModal = () => setShowInfoModal(prev => !prev);
+  const framingImage = images.find(img => img.id === framingImageId);
+
+  const handleApplyFraming = (framing: { focalPoint?: FocalPoint; cropRect?: CropRect }) => {
+    setImages(currentImages => currentImages.map(img => img.id === framingImageId ? { ...img, ...framing } : img));
+    setFramingImageId(null);
+  };
 
+  const optionsImage = images.find(img => img.id === optionsImageId);
+  const compareImage = images.find(img => img.id === compareImageId);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const newImages = acceptedFiles.map((file) => {
-      const previewUrl = URL.createObjectURL(file);
-      return {
-        id: `${file.name}-${file.lastModified}-${Math.random()}`, // Create a reasonably unique ID
-        originalFile: file,
-        originalPreview: previewUrl,
-        currentPreview: previewUrl,
-      };
+  const handleApplyOverrides = (overrides: ImageOverrides | undefined) => {
+    setImages(currentImages => currentImages.map(img => img.id === optionsImageId ? { ...img, overrides } : img));
+    setOptionsImageId(null);
+  };
+
+
+  const onDrop = useCallback(async (acceptedFiles: File[], fileRejections: FileRejection[]) => {
+    const rejected: { name: string, reason: string }[] = fileRejections.map(({ file }) => ({
+      name: file.name,
+      reason: `${file.type || 'This file type'} isn't a supported image format`,
+    }));
+    const newImages: ImageState[] = [];
+
+    // Check every file up front so unsupported ones never reach the workers
+    const inspections = await Promise.all(acceptedFiles.map(inspectInputFile));
+    acceptedFiles.forEach((file, i) => {
+      const inspection = inspections[i];
+      if (!inspection.ok) {
+        rejected.push({ name: file.name, reason: inspection.reason });
+        return;
+      }
+
+      for (let page = 0; page < inspection.pageCount; page++) {
+        // Give each page of a multi-page TIFF its own name so outputs don't collide
+        const pageFile = inspection.pageCount > 1
+          ? new File([file], file.name.replace(/(\.[^.]+)?$/, `_p${page + 1}$1`), { type: file.type, lastModified: file.lastModified })
+          : file;
+        const previewUrl = URL.createObjectURL(pageFile);
+        newImages.push({
+          id: `${pageFile.name}-${file.lastModified}-${Math.random()}`, // Create a reasonably unique ID
+          originalFile: pageFile,
+          inputKind: inspection.kind,
+          page: inspection.pageCount > 1 ? page : undefined,
+          originalPreview: previewUrl,
+          currentPreview: previewUrl,
+        });
+      }
     });
+
+    setRejectedFiles(rejected);
     setImages((prev) => [...prev, ...newImages]);
   }, []);
 
@@ -172,12 +692,17 @@ export default function UploadDropzone() {
       }
     });
     setImages([]);
+    setSelectedImageIds(new Set());
     setOverallProgress(0);
     setProcessedImageNames(new Set());
+    setLastRunSummary(null);
+    setRunError(null);
+    setRejectedFiles([]);
   };
 
   useEffect(() => {
     return () => {
+      workerPoolRef.current?.terminate();
       images.forEach((img) => {
         URL.revokeObjectURL(img.originalPreview);
         if (img.currentPreview && img.currentPreview !== img.originalPreview) {
@@ -189,7 +714,7 @@ export default function UploadDropzone() {
   }, []); // empty deps → only runs on unmount
 
 
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({ accept: { "image/*": [] }, onDrop, disabled: isProcessing });
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({ accept: ACCEPTED_INPUT_TYPES, onDrop, disabled: isProcessing });
 
   // --- Handlers ---
   const handleDimensionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -217,12 +742,67 @@ export default function UploadDropzone() {
 
   const handleRemoveBackgroundChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setRemoveBackground(e.target.checked);
-    // If remove background is checked and format is jpeg, switch to png
-    if (e.target.checked && format === 'jpeg') {
+    // If remove background is checked and format is jpeg, switch to png unless the background gets filled
+    if (e.target.checked && format === 'jpeg' && keepsTransparency(true, background, removal)) {
       setFormat('png');
     }
   };
   const handleFilenameTemplateChange = (e: React.ChangeEvent<HTMLInputElement>) => setFilenameTemplate(e.target.value);
+  const handleMaxFileSizeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const numValue = parseInt(e.target.value, 10);
+    setMaxFileSizeKB(isNaN(numValue) || numValue < 0 ? 0 : numValue);
+  };
+
+  const updateWatermark = (changes: Partial<WatermarkSettings>) => setWatermark(prev => ({ ...prev, ...changes }));
+
+  const handleWatermarkImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+    if (file.type !== 'image/png') {
+      setWatermarkError("Logo must be a PNG");
+      return;
+    }
+
+    // Read as a data URL so it can be posted to the workers and saved inside presets
+    try {
+      updateWatermark({ imageDataUrl: await readImageForPreset(file, MAX_WATERMARK_SIDE, 'image/png') });
+      setWatermarkError(null);
+    } catch (err) {
+      console.error("Failed to read the watermark logo", err);
+      setWatermarkError("Couldn't read that file");
+    }
+  };
+
+  const updateRemoval = (changes: Partial<RemovalSettings>) => setRemoval(prev => ({ ...prev, ...changes }));
+
+  const updateBackground = (changes: Partial<BackgroundSettings>) => setBackground(prev => ({ ...prev, ...changes }));
+
+  const handleBackgroundTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const type = e.target.value as BackgroundSettings['type'];
+    updateBackground({ type });
+    // Back to a transparent cutout, which JPEG can't hold
+    if (keepsTransparency(removeBackground, { ...background, type }, removal) && format === 'jpeg') setFormat('png');
+  };
+
+  const handleBackgroundImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      setBackgroundError("Background must be a PNG or JPEG");
+      return;
+    }
+
+    // Photos are shrunk so they still fit in a preset; PNGs may be transparent, so they become WebP rather than JPEG
+    try {
+      updateBackground({ imageDataUrl: await readImageForPreset(file, MAX_BACKGROUND_SIDE, file.type === 'image/jpeg' ? 'image/jpeg' : 'image/webp') });
+      setBackgroundError(null);
+    } catch (err) {
+      console.error("Failed to read the background image", err);
+      setBackgroundError("Couldn't read that file");
+    }
+  };
 
   const handlePresetSelect = (presetKey: string | null) => {
     if (presetKey === null) {
@@ -230,10 +810,15 @@ export default function UploadDropzone() {
       return;
     }
 
-    const presetCategory = Object.keys(presets).find(category => presets[category][presetKey]);
+    const presetCategory = Object.keys(allPresets).find(category => allPresets[category][presetKey]);
     if (!presetCategory) return;
 
-    const preset = presets[presetCategory][presetKey];
+    if (multiPresetMode) {
+      setExportPresetKeys(prev => prev.includes(presetKey) ? prev.filter(key => key !== presetKey) : [...prev, presetKey]);
+      return;
+    }
+
+    const preset = allPresets[presetCategory][presetKey];
     if (preset) {
       setSelectedPreset(presetKey);
       setResizeDimensions({ width: preset.width, height: preset.height });
@@ -241,14 +826,127 @@ export default function UploadDropzone() {
       if (preset.radius !== undefined) {
         setBorderRadius(Number(preset.radius)); // Ensure it's a number
       }
+      if (preset.format !== undefined) setFormat(preset.format);
+      if (preset.quality !== undefined) setQuality(preset.quality);
+      if (preset.removeBackground !== undefined) setRemoveBackground(preset.removeBackground);
+      if (preset.subjectPadding !== undefined) setSubjectPadding(preset.subjectPadding);
+      if (preset.filenameTemplate !== undefined) setFilenameTemplate(preset.filenameTemplate);
+      if (preset.watermark !== undefined) setWatermark(preset.watermark);
+      if (preset.background !== undefined) setBackground(preset.background);
+      setPresetName(presetCategory === USER_PRESETS_CATEGORY ? preset.name : "");
     }
   };
 
+  // Selects every preset in the category for a multi-preset run, or clears them if they're all selected already
+  const handleToggleExportCategory = (category: string) => {
+    const keys = Object.keys(allPresets[category] ?? {});
+    const allSelected = keys.every(key => exportPresetKeys.includes(key));
+    setExportPresetKeys(prev => allSelected
+      ? prev.filter(key => !keys.includes(key))
+      : [...prev, ...keys.filter(key => !prev.includes(key))]);
+  };
+
+  // Only takes the new presets once they're saved, so the list never shows one that would be gone after a reload
+  const updateUserPresets = (next: Record<string, Preset>): boolean => {
+    try {
+      saveUserPresets(next);
+    } catch (err) {
+      setPresetSaveError(err instanceof Error ? err.message : "Couldn't save presets");
+      return false;
+    }
+    setUserPresets(next);
+    setPresetSaveError(null);
+    return true;
+  };
+
+  // Snapshot of the current settings in preset form
+  const buildPresetFromSettings = (name: string): Preset => ({
+    name,
+    width: resizeDimensions.width || defaultOptions.resizeDimensions.width,
+    height: resizeDimensions.height || defaultOptions.resizeDimensions.height,
+    fit: fitOption,
+    radius: borderRadius,
+    format,
+    quality,
+    removeBackground,
+    subjectPadding,
+    filenameTemplate,
+    watermark,
+    background,
+  });
+
+  const getTakenPresetKeys = () => new Set(Object.values(allPresets).flatMap(items => Object.keys(items)));
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const key = createPresetKey(name, getTakenPresetKeys());
+    if (updateUserPresets({ ...userPresets, [key]: buildPresetFromSettings(name) })) setSelectedPreset(key);
+  };
+
+  // Overwrites the selected user preset with the current settings and name
+  const handleUpdatePreset = () => {
+    const name = presetName.trim();
+    if (!name || !selectedPreset || !isUserPresetSelected) return;
+    updateUserPresets({ ...userPresets, [selectedPreset]: buildPresetFromSettings(name) });
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || !isUserPresetSelected) return;
+    const rest = { ...userPresets };
+    delete rest[selectedPreset];
+    if (!updateUserPresets(rest)) return;
+    setSelectedPreset(null);
+    setPresetName("");
+  };
+
+  const handleExportPresets = () => {
+    if (Object.keys(userPresets).length === 0) return;
+    saveAs(exportPresets(userPresets), "batch-image-presets.json");
+  };
+
+  const handleImportPresets = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      const imported = parsePresetFile(await file.text());
+      const takenKeys = getTakenPresetKeys();
+      const next = { ...userPresets };
+      imported.forEach(preset => {
+        const key = createPresetKey(preset.name, takenKeys);
+        takenKeys.add(key);
+        next[key] = preset;
+      });
+      if (updateUserPresets(next)) setPresetImportError(null);
+    } catch (err) {
+      console.error("Failed to import presets", err);
+      setPresetImportError(err instanceof Error ? err.message : "Couldn't read that file");
+    }
+  };
+
+  // Ticked images that are still in the list; processing only touches these when there are any
+  const selectedImages = images.filter(img => selectedImageIds.has(img.id));
+
+  const toggleImageSelected = (id: string) => {
+    setSelectedImageIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  // Moves an image's card to another version from its history
+  const handleShowVersion = (id: string, index: number) => {
+    setImages(currentImages => currentImages.map(img => img.id === id ? showVersion(img, index) : img));
+  };
+
   const handleProcessImages = () => {
     if (images.length === 0 || isProcessing) return;
 
-    // Check if background removal is on and if it's the first time
-    if (removeBackground && !isModelCached) {
+    // Check if the model is needed (background removal or smart cover) and if it's the first time
+    if (usesModel && !isModelCached) {
       setShowConsentModal(true);
       return;
     }
@@ -256,78 +954,333 @@ export default function UploadDropzone() {
     startProcessing();
   };
 
+  const handleRetryFailed = () => {
+    const failedImages = images.filter(img => img.error);
+    if (failedImages.length === 0 || isProcessing) return;
+    startProcessing(failedImages);
+  };
+
   // Create a helper to actually trigger the worker (move previous handleProcessImages logic here)
-  const startProcessing = () => {
+  const startProcessing = async (imagesToProcess: ImageState[] = selectedImages.length > 0 ? selectedImages : images) => {
     setIsProcessing(true);
+    setIsPaused(false);
+    setIsCancelling(false);
+    cancelRequestedRef.current = false;
     setOverallProgress(0);
     setProcessedImageNames(new Set());
+    setLastRunSummary(null);
+    setRunError(null);
+
+    // Clear errors from the previous attempt on the images being processed again.
+    // Their previous results stay on the card until the first new one arrives
+    const idsToProcess = new Set(imagesToProcess.map(img => img.id));
+    setRunImageIds(idsToProcess);
+    setImages(currentImages => currentImages.map(img => idsToProcess.has(img.id) ? { ...img, error: undefined } : img));
+    // Images that have had a result this run; each gets a new version once the run ends
+    const touchedIds = new Set<string>();
+    // Jobs that came back with a result or an error, so a crashed run can tell which never finished
+    const finishedJobs = new Set<string>();
+    const jobKey = (imageId: string, variant?: string) => `${imageId}/${variant ?? ''}`;
+    let resultCount = 0;
+    let imageErrorCount = 0;
+
+    // Each worker only sees its share of the batch, so names are made unique here, per ZIP folder and
+    // alongside the images that aren't being processed again. Results arrive in whatever order the workers
+    // finish, so cards show the workers' names until the run ends and the clashes are settled in batch order
+    const runNames = new Map<string, Map<string, string>>(); // Image id -> variant key ('' for none) -> worker's name
+    const takenNames = new Map<string, Set<string>>();
+    const claimFilename = (folder: string, filename: string) => {
+      if (!takenNames.has(folder)) takenNames.set(folder, new Set());
+      return getUniqueFilename(filename, takenNames.get(folder)!);
+    };
+    images.filter(img => !idsToProcess.has(img.id) && !img.iconSet).forEach(img => {
+      if (img.outputs) img.outputs.forEach(output => claimFilename(output.folder, output.fileName));
+      else if (img.processedFileName) claimFilename('', img.processedFileName);
+    });
 
-    const worker = createImageWorker();
     const width = resizeDimensions.width || 512;
     const height = resizeDimensions.height || 512;
 
     let effectiveFormat = format;
-    if (removeBackground && effectiveFormat === 'jpeg') {
+    if (keepsTransparency(removeBackground, background, removal) && effectiveFormat === 'jpeg') {
       effectiveFormat = 'png';
     }
 
-    worker.postMessage({
-      images: images.map(img => ({ file: img.originalFile, id: img.id })),
-      options: {
-        resize: { width, height, fit: fitOption },
-        borderRadius,
-        format: effectiveFormat,
-        quality: effectiveFormat === 'png' ? undefined : quality,
-        removeBackground: removeBackground,
-        filenameTemplate: filenameTemplate,
-        presetName: selectedPreset,
-      },
+    const batchOptions: ProcessOptions = {
+      resize: { width, height, fit: fitOption },
+      borderRadius,
+      format: effectiveFormat,
+      quality, // Sent even for png so images that override the format have it; the worker ignores it for png
+      removeBackground: removeBackground,
+      removal,
+      subjectPadding,
+      filenameTemplate: filenameTemplate,
+      presetName: selectedPreset,
+      maxFileSizeKB: maxFileSizeKB > 0 ? maxFileSizeKB : undefined,
+      allowDownscale,
+      metadata: metadataMode,
+      watermark: watermark.type === 'none' ? undefined : watermark,
+      background: background.type === 'transparent' ? undefined : background,
+    };
+
+    const variantInfo: Record<string, { name: string; folder: string }> = {};
+    const variants: Record<string, ProcessOptions> = {};
+
+    // Icon files are always PNG at fixed sizes; only the framing and background removal come from the current settings
+    if (iconSetMode) ICON_SET_SPECS.forEach(spec => {
+      variantInfo[spec.key] = { name: `${spec.folder}/${spec.fileName}.png`, folder: spec.folder };
+      variants[spec.key] = {
+        ...batchOptions,
+        resize: { width: spec.size, height: spec.size, fit: spec.fit ?? fitOption },
+        borderRadius: spec.radius ?? 0,
+        format: 'png',
+        filenameTemplate: spec.fileName,
+        presetName: spec.key,
+        maxFileSizeKB: undefined,
+        metadata: 'strip',
+        watermark: undefined,
+        padding: spec.padding,
+        matte: spec.matte,
+      };
     });
 
-    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
-      const { data } = e;
-      if (data.type === 'progress') {
-        const { processedCount, totalCount, imageName } = data;
-        setOverallProgress((processedCount / totalCount) * 100);
-        setProcessedImageNames(prev => new Set(prev).add(imageName));
-      } else if (data.type === 'model-load-progress') {
-        const { current, total } = data;
-        setModelLoadProgress({ current, total });
-      } else if (data.type === 'done') {
-        const processedResults = data.results;
-
-        // SUCCESS: Mark model as cached if background removal was used
-        if (removeBackground) {
-          localStorage.setItem("bg-removal-model-cached", "true");
-          setIsModelCached(true);
-        }
+    // Each selected preset becomes its own set of options, falling back to the current settings for anything it doesn't store
+    presetVariantKeys.forEach(key => {
+      const preset = findPreset(key)!;
+      const presetRemovesBackground = preset.removeBackground ?? removeBackground;
+      const presetFormat = preset.format ?? format;
+      const presetBackground = preset.background ?? background;
+      variantInfo[key] = { name: preset.name, folder: preset.name.replace(/[\\/:*?"<>|]+/g, '-') };
+      variants[key] = {
+        ...batchOptions,
+        resize: { width: preset.width, height: preset.height, fit: preset.fit },
+        borderRadius: preset.radius ?? borderRadius,
+        format: keepsTransparency(presetRemovesBackground, presetBackground, removal) && presetFormat === 'jpeg' ? 'png' : presetFormat,
+        quality: preset.quality ?? quality,
+        removeBackground: presetRemovesBackground,
+        subjectPadding: preset.subjectPadding ?? subjectPadding,
+        filenameTemplate: preset.filenameTemplate ?? filenameTemplate,
+        presetName: key,
+        watermark: preset.watermark ? (preset.watermark.type === 'none' ? undefined : preset.watermark) : batchOptions.watermark,
+        background: presetBackground.type === 'transparent' ? undefined : presetBackground,
+      };
+    });
+
+    if (variantKeys.includes(CUTOUT_VARIANT)) {
+      variantInfo[CUTOUT_VARIANT] = { name: 'Cutout', folder: '' };
+      variants[CUTOUT_VARIANT] = batchOptions;
+    }
 
-        setModelLoadProgress(null);
-        setImages(currentImages => currentImages.map(img => {
-          const result = processedResults.find(p => p.originalId === img.id);
-          if (!result || !result.filename) return img;
-          if (img.processedBlob) URL.revokeObjectURL(img.currentPreview);
-          return {
-            ...img,
-            currentPreview: URL.createObjectURL(result.blob),
-            processedBlob: result.blob,
-            processedFileName: result.filename,
-            processedSize: result.size,
-            processedWidth: result.width,
-            processedHeight: result.height,
-            processedFormat: result.filename.split('.').pop() as ImageFormat,
-          };
-        }));
-        setIsProcessing(false);
-        worker.terminate();
+    // Mask twins copy their cutout's options and sit next to it; masks are kept lossless
+    variantKeys.filter(key => key.endsWith(MASK_VARIANT_SUFFIX)).forEach(key => {
+      const cutoutKey = key.slice(0, -MASK_VARIANT_SUFFIX.length);
+      const cutout = variants[cutoutKey];
+      variantInfo[key] = { name: `${variantInfo[cutoutKey].name} (mask)`, folder: variantInfo[cutoutKey].folder };
+      variants[key] = {
+        ...cutout,
+        format: 'png',
+        removal: { ...removal, output: 'mask' },
+        filenameTemplate: `${cutout.filenameTemplate}_mask`,
+        maxFileSizeKB: undefined,
+      };
+    });
+    const variantSizes = Object.values(variants).map(variant => variant.resize ?? { width, height });
+
+    // Workers can't render SVG, so rasterise it here at a size that covers the output
+    let rasterizeFailures = 0;
+    const poolImages = (await Promise.all(imagesToProcess.map(async (img) => {
+      let file = img.originalFile;
+      if (img.inputKind === 'svg') {
+        try {
+          // Large enough for the biggest preset in a multi-preset run
+          const svgWidth = img.overrides?.width ?? Math.max(width, ...variantSizes.map(size => size.width));
+          const svgHeight = img.overrides?.height ?? Math.max(height, ...variantSizes.map(size => size.height));
+          file = new File([await rasterizeSvg(img.originalFile, svgWidth, svgHeight)], img.originalFile.name, { type: 'image/png' });
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          setImages(currentImages => currentImages.map(i => i.id === img.id ? { ...i, error: { stage: 'decode', message } } : i));
+          rasterizeFailures++;
+          return null;
+        }
       }
-    };
+      // Index comes from the full list so {index} stays the same on a retry
+      return {
+        file,
+        id: img.id,
+        index: images.indexOf(img),
+        page: img.page,
+        focalPoint: img.focalPoint,
+        cropRect: img.cropRect,
+        overrides: iconSetMode ? undefined : img.overrides, // Icon sizes and format are fixed
+      };
+    }))).filter((img): img is NonNullable<typeof img> => img !== null);
 
-    worker.onerror = (error) => {
-      console.error("Web worker error:", error);
+    // Cancelled while the SVGs were rasterised: nothing has been handed to a worker yet
+    if (cancelRequestedRef.current) {
+      setLastRunSummary({ processedCount: 0, failedCount: rasterizeFailures, cancelled: true });
       setIsProcessing(false);
-      setModelLoadProgress(null);
+      setIsCancelling(false);
+      return;
+    }
+
+    // Gives the outputs their final names and records each image's new version; cancelled and crashed runs keep what they finished too
+    const finishRun = () => {
+      // Batch order, then preset order, so a clash gets the same "(n)" suffix however the workers were scheduled
+      const finalNames = new Map<string, Map<string, string>>();
+      poolImages.filter(img => runNames.has(img.id)).sort((a, b) => a.index - b.index).forEach(img => {
+        const names = runNames.get(img.id)!;
+        const keys = [...names.keys()].sort((a, b) => variantKeys.indexOf(a) - variantKeys.indexOf(b));
+        finalNames.set(img.id, new Map(keys.map(key => [key, claimFilename(key ? variantInfo[key].folder : '', names.get(key)!)])));
+      });
+      setImages(currentImages => currentImages.map(img => {
+        if (!touchedIds.has(img.id)) return img;
+        const names = finalNames.get(img.id);
+        if (!names) return recordVersion(img);
+        const previewed = img.outputs?.find(output => output.blob === img.processedBlob);
+        return recordVersion({
+          ...img,
+          outputs: img.outputs?.map(output => ({ ...output, fileName: names.get(output.presetKey) ?? output.fileName })),
+          processedFileName: names.get(previewed?.presetKey ?? '') ?? img.processedFileName,
+        });
+      }));
     };
+
+    // One job per image and preset in a multi-preset run
+    const jobs: (typeof poolImages[number] & { variant?: string })[] = variantKeys.length > 0
+      ? poolImages.flatMap(img => variantKeys.map(variant => ({ ...img, variant })))
+      : poolImages;
+
+    workerPoolRef.current = runWorkerPool(
+      jobs,
+      batchOptions,
+      {
+        onProgress: (processedCount, totalCount, imageName) => {
+          setOverallProgress((processedCount / totalCount) * 100);
+          setProcessedImageNames(prev => new Set(prev).add(imageName));
+        },
+        onModelLoadProgress: (current, total) => {
+          setModelLoadProgress({ current, total });
+        },
+        onImageError: ({ imageId, variant, stage, message }) => {
+          finishedJobs.add(jobKey(imageId, variant));
+          imageErrorCount++;
+          const error = { stage, message: variant ? `${variantInfo[variant].name}: ${message}` : message };
+          setImages(currentImages => currentImages.map(img => img.id === imageId ? { ...img, error } : img));
+        },
+        onResult: (result) => {
+          finishedJobs.add(jobKey(result.originalId, result.variant));
+          resultCount++;
+          const processedFormat = result.format;
+          const filename = result.filename;
+          // Icon sets name every file after its spec, and each source gets its own folder in the ZIP
+          if (!iconSetMode) {
+            if (!runNames.has(result.originalId)) runNames.set(result.originalId, new Map());
+            runNames.get(result.originalId)!.set(result.variant ?? '', filename);
+          }
+          const job = poolImages.find(img => img.id === result.originalId);
+          const options = applyOverrides(result.variant ? variants[result.variant] : batchOptions, job?.overrides);
+          const isFirstResult = !touchedIds.has(result.originalId);
+          if (filename) touchedIds.add(result.originalId);
+          // Update the card as soon as its image is done rather than waiting for the whole batch
+          setImages(currentImages => currentImages.map(img => {
+            if (img.id !== result.originalId || !filename) return img;
+            // The first result of a run replaces whatever outputs the previous version had
+            let updated: ImageState = isFirstResult ? { ...img, outputs: undefined, iconSet: iconSetMode } : img;
+            if (result.variant) {
+              const output: ImageOutput = {
+                presetKey: result.variant,
+                presetName: variantInfo[result.variant].name,
+                folder: variantInfo[result.variant].folder,
+                blob: result.blob,
+                fileName: filename,
+                size: result.size,
+                width: result.width,
+                height: result.height,
+                format: processedFormat,
+                quality: result.quality,
+                targetSizeMet: result.targetSizeMet,
+                options,
+              };
+              const outputs = [...(updated.outputs ?? []).filter(o => o.presetKey !== result.variant), output]
+                .sort((a, b) => variantKeys.indexOf(a.presetKey) - variantKeys.indexOf(b.presetKey));
+              updated = { ...updated, outputs };
+              // The card previews the first selected preset; other outputs only need storing
+              if (!isFirstResult && img.processedBlob && result.variant !== variantKeys[0]) return updated;
+            }
+            if (img.processedBlob) URL.revokeObjectURL(img.currentPreview);
+            return {
+              ...updated,
+              currentPreview: URL.createObjectURL(result.blob),
+              processedBlob: result.blob,
+              processedFileName: filename,
+              processedSize: result.size,
+              processedWidth: result.width,
+              processedHeight: result.height,
+              processedFormat,
+              processedQuality: result.quality,
+              targetSizeMet: result.targetSizeMet,
+              rotatedFromExif: result.rotatedFromExif,
+              processedOptions: options,
+            };
+          }));
+        },
+        onDone: (summary) => {
+          // SUCCESS: Mark model as cached if background removal or smart cover used it
+          if (usesModel) {
+            localStorage.setItem("bg-removal-model-cached", "true");
+            setIsModelCached(true);
+          }
+
+          setModelLoadProgress(null);
+          setLastRunSummary({ ...summary, failedCount: summary.failedCount + rasterizeFailures });
+          finishRun();
+          workerPoolRef.current = null;
+          setIsProcessing(false);
+          setIsPaused(false);
+          setIsCancelling(false);
+        },
+        onError: (error) => {
+          console.error("Web worker error:", error);
+          // The whole pool is gone, so everything still queued or in progress is marked failed and can be retried
+          const unfinished = jobs.filter(job => !finishedJobs.has(jobKey(job.id, job.variant)));
+          const unfinishedIds = new Set(unfinished.map(job => job.id));
+          setImages(currentImages => currentImages.map(img => unfinishedIds.has(img.id) && !img.error
+            ? { ...img, error: { message: "Not processed: the run stopped before this image finished" } }
+            : img));
+          setRunError(`Processing stopped: ${error.message || 'a worker crashed'}`);
+          setLastRunSummary({ processedCount: resultCount, failedCount: imageErrorCount + unfinished.length + rasterizeFailures, cancelled: false });
+          finishRun();
+          workerPoolRef.current = null;
+          setIsProcessing(false);
+          setIsPaused(false);
+          setIsCancelling(false);
+          setModelLoadProgress(null);
+        },
+      },
+      variantKeys.length > 0 ? variants : undefined
+    );
+  };
+
+  const handleTogglePause = () => {
+    if (!workerPoolRef.current || isCancelling) return;
+    if (isPaused) {
+      workerPoolRef.current.resume();
+    } else {
+      workerPoolRef.current.pause();
+    }
+    setIsPaused(!isPaused);
+  };
+
+  const handleCancelProcessing = () => {
+    if (!isProcessing || isCancelling) return;
+    setIsCancelling(true);
+    setIsPaused(false);
+    if (!workerPoolRef.current) {
+      cancelRequestedRef.current = true; // startProcessing checks this before starting the pool
+      return;
+    }
+    // Workers finish the image they're on; completed results still arrive through onDone
+    workerPoolRef.current.cancel();
   };
 
   const handleResetEffects = () => {
@@ -343,6 +1296,13 @@ export default function UploadDropzone() {
         processedWidth: undefined,
         processedHeight: undefined,
         processedFormat: undefined,
+        processedQuality: undefined,
+        targetSizeMet: undefined,
+        rotatedFromExif: undefined,
+        processedOptions: undefined,
+        outputs: undefined,
+        history: undefined,
+        historyIndex: undefined,
       };
     }));
 
@@ -353,36 +1313,183 @@ export default function UploadDropzone() {
     setFitOption(defaultOptions.fitOption);
 
     setRemoveBackground(defaultOptions.removeBackground);
+    setSubjectPadding(defaultOptions.subjectPadding);
     setFilenameTemplate(defaultOptions.filenameTemplate);
+    setMaxFileSizeKB(defaultOptions.maxFileSizeKB);
+    setAllowDownscale(defaultOptions.allowDownscale);
+    setMetadataMode(defaultOptions.metadata);
+    setWatermark(defaultOptions.watermark);
+    setWatermarkError(null);
+    setBackground(defaultOptions.background);
+    setBackgroundError(null);
+    setRemoval(defaultOptions.removal);
     setSelectedPreset(null);
+    setPresetName("");
   };
 
 
 
+  // Multi-preset outputs go into one folder per preset; icon sets into their platform folders
+  const addImageToZip = async (zip: JSZip, image: ImageState) => {
+    if (image.outputs) {
+      image.outputs.forEach(output => (output.folder ? zip.folder(output.folder) : zip)?.file(output.fileName, output.blob));
+      if (image.iconSet) {
+        await addIconSetFiles(zip, new Map(image.outputs.map(output => [output.presetKey, output.blob])));
+      }
+    } else if (image.processedBlob && image.processedFileName) {
+      zip.file(image.processedFileName, image.processedBlob);
+    }
+  };
+
+  const getBaseName = (image: ImageState) => image.originalFile.name.replace(/\.[^.]+$/, '');
+
+  // Manifest rows for an image's files; root is the image's own folder in the archive, if it has one
+  const buildManifestEntries = (image: ImageState, root: string): ManifestEntry[] => {
+    const prefix = root ? `${root}/` : '';
+    if (image.outputs) return image.outputs.map(output => ({
+      original: image.originalFile.name,
+      output: `${prefix}${output.folder ? `${output.folder}/` : ''}${output.fileName}`,
+      preset: output.presetName,
+      width: output.width,
+      height: output.height,
+      bytes: output.size,
+      format: output.format,
+      quality: output.quality,
+      settings: describeSettings(output.options),
+    }));
+    if (!image.processedBlob || !image.processedFileName || !image.processedOptions) return [];
+    const { presetName: presetKey } = image.processedOptions;
+    return [{
+      original: image.originalFile.name,
+      output: `${prefix}${image.processedFileName}`,
+      preset: presetKey ? findPreset(presetKey)?.name : undefined,
+      width: image.processedWidth ?? 0,
+      height: image.processedHeight ?? 0,
+      bytes: image.processedSize ?? image.processedBlob.size,
+      format: image.processedFormat ?? image.processedOptions.format,
+      quality: image.processedQuality,
+      settings: describeSettings(image.processedOptions),
+    }];
+  };
+
   const handleDownloadZip = async () => {
-    const zip = new JSZip();
     const imagesToZip = images.filter(img => img.processedBlob && img.processedFileName);
-    if (imagesToZip.length === 0) return;
+    if (imagesToZip.length === 0 || zipProgress) return;
 
-    imagesToZip.forEach(image => {
-      if (image.processedBlob && image.processedFileName) {
-        zip.file(image.processedFileName, image.processedBlob);
-      }
+    const items: ZipExportItem[] = imagesToZip.map(image => {
+      // Every icon set uses the same file names, so each source gets its own folder when there are several
+      const root = image.iconSet && imagesToZip.length > 1 ? getBaseName(image) : '';
+      return {
+        bytes: image.outputs ? image.outputs.reduce((sum, output) => sum + output.size, 0) : image.processedSize ?? 0,
+        addTo: zip => addImageToZip(root ? zip.folder(root) ?? zip : zip, image),
+        manifest: buildManifestEntries(image, root),
+      };
     });
 
-    const zipBlob = await zip.generateAsync({ type: "blob" });
-    saveAs(zipBlob, "processed-images.zip");
+    setZipError(null);
+    try {
+      // A single archive goes straight to a file where the browser allows it, rather than being built up in memory
+      const writable = splitSizeMB === 0 && isZipFileSaveSupported() ? await openZipFile("processed-images.zip") : undefined;
+      if (writable === null) return;
+      const onProgress = (part: number, partCount: number, percent: number) => setZipProgress({ part, partCount, percent });
+      setZipProgress({ part: 1, partCount: 1, percent: 0 });
+      if (writable) {
+        await writeZipArchive(items, { compression: zipCompression, manifest: manifestFormat, onProgress }, writable);
+      } else {
+        await exportZipArchives(items, {
+          baseName: "processed-images",
+          compression: zipCompression,
+          manifest: manifestFormat,
+          splitBytes: splitSizeMB > 0 ? splitSizeMB * 1024 * 1024 : undefined,
+          onProgress,
+        }, saveAs);
+      }
+    } catch (err) {
+      console.error("Failed to build ZIP:", err);
+      setZipError(`Couldn't build the ZIP: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setZipProgress(null);
+    }
+  };
+
+  // Every file a ZIP of these images would hold, for writing straight into a folder
+  const collectFolderFiles = async (imagesToSave: ImageState[]): Promise<FolderExportFile[]> => {
+    const files: FolderExportFile[] = [];
+    const manifest: ManifestEntry[] = [];
+    for (const image of imagesToSave) {
+      const root = image.iconSet && imagesToSave.length > 1 ? getBaseName(image) : '';
+      const prefix = root ? `${root}/` : '';
+      if (image.iconSet) {
+        // An icon set's descriptor files are only built as ZIP entries, so take everything from a throwaway ZIP
+        const zip = new JSZip();
+        await addImageToZip(zip, image);
+        for (const entry of Object.values(zip.files).filter(entry => !entry.dir)) {
+          files.push({ path: `${prefix}${entry.name}`, blob: await entry.async("blob") });
+        }
+      } else if (image.outputs) {
+        image.outputs.forEach(output => files.push({ path: output.folder ? `${output.folder}/${output.fileName}` : output.fileName, blob: output.blob }));
+      } else if (image.processedBlob && image.processedFileName) {
+        files.push({ path: image.processedFileName, blob: image.processedBlob });
+      }
+      manifest.push(...buildManifestEntries(image, root));
+    }
+    buildManifestFiles(manifest, manifestFormat).forEach(({ name, content }) => files.push({ path: name, blob: new Blob([content]) }));
+    return files;
+  };
+
+  const handleSaveToFolder = async (useLastFolder: boolean) => {
+    if (!canSaveToFolder) {
+      await handleDownloadZip();
+      return;
+    }
+    const imagesToSave = images.filter(img => img.processedBlob && img.processedFileName);
+    if (imagesToSave.length === 0 || folderProgress) return;
+
+    setFolderMessage(null);
+    try {
+      // Permission has to be asked for before anything else is awaited, while the click still counts
+      const folder = useLastFolder && lastFolder ? lastFolder : await pickOutputFolder(lastFolder ?? undefined);
+      if (!folder) return;
+      if (!await ensureWritePermission(folder)) {
+        setFolderMessage({ text: `No permission to save into "${folder.name}"`, isError: true });
+        return;
+      }
+      setLastFolder(folder);
+
+      const files = await collectFolderFiles(imagesToSave);
+      setFolderProgress({ done: 0, total: files.length });
+      const result = await saveFilesToFolder(folder, files, existingFileRule, (done, total) => setFolderProgress({ done, total }));
+      const notes = [
+        result.renamed > 0 ? `${result.renamed} renamed` : '',
+        result.skipped > 0 ? `${result.skipped} skipped as they already existed` : '',
+      ].filter(Boolean).join(', ');
+      setFolderMessage({ text: `Saved ${result.written} file${result.written === 1 ? '' : 's'} to "${folder.name}"${notes ? ` (${notes})` : ''}`, isError: false });
+    } catch (err) {
+      console.error("Failed to save to folder:", err);
+      setFolderMessage({ text: `Couldn't save to the folder: ${err instanceof Error ? err.message : String(err)}`, isError: true });
+    } finally {
+      setFolderProgress(null);
+    }
   };
 
-  const handleDownloadSingleFile = (image: ImageState) => {
+  const handleDownloadSingleFile = async (image: ImageState) => {
+    // An image with several outputs is downloaded as its own small ZIP
+    if (image.outputs && image.outputs.length > 1) {
+      const zip = new JSZip();
+      await addImageToZip(zip, image);
+      saveAs(await zip.generateAsync({ type: "blob" }), `${getBaseName(image)}${image.iconSet ? '-icons' : ''}.zip`);
+      return;
+    }
     if (image.processedBlob && image.processedFileName) {
-      saveAs(image.processedBlob, image.processedFileName);
+      // A template with folders only makes folders inside a ZIP
+      saveAs(image.processedBlob, image.processedFileName.split('/').pop());
     }
   };
 
 
   const hasProcessedImages = images.length > 0 && images.some(img => img.processedBlob);
-  const isUIDisabled = hasProcessedImages || isProcessing;
+  const failedImageCount = images.filter(img => img.error).length;
+  const isUIDisabled = isProcessing;
 
   // Helper to format file sizes
   const formatBytes = (bytes: number | undefined, decimals = 2) => {
@@ -410,7 +1517,7 @@ export default function UploadDropzone() {
               <div>
                 <h3 className="text-lg font-bold text-gray-900 dark:text-white">Download Required</h3>
                 <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
-                  To remove backgrounds, we need to download @imgly/background-removal model (~40MB).
+                  To remove backgrounds or find the subject, we need to download @imgly/background-removal model (~40MB).
                 </p>
                 <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
                   This only happens once. Future uses will work offline.
@@ -441,6 +1548,33 @@ export default function UploadDropzone() {
 
 
 
+      {/* Restore Previous Session */}
+      {savedSession && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60 backdrop-blur-sm">
+          <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-2xl max-w-sm w-full mx-4 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">Restore previous session?</h3>
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+              {savedSession.images.length} image{savedSession.images.length === 1 ? '' : 's'}
+              {savedSession.images.some(img => img.processedBlob) && ', with their processed results,'} and your settings from {new Date(savedSession.savedAt).toLocaleString()}.
+            </p>
+            <div className="mt-6 flex justify-end gap-3">
+              <button
+                onClick={handleDiscardSession}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Start Fresh
+              </button>
+              <button
+                onClick={handleRestoreSession}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-500/30 transition-all"
+              >
+                Restore
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Model Download Progress Modal */}
       {modelLoadProgress && modelLoadProgress.current < modelLoadProgress.total && (
         <div className="fixed bottom-6 right-6 z-50 backdrop-blur-sm">
@@ -500,6 +1634,56 @@ export default function UploadDropzone() {
         </h1>
       </div>
 
+      {/* Framing editor for the focal point and crop rectangle */}
+      {framingImage && (
+        <CropEditor
+          imageUrl={framingImage.originalPreview}
+          fileName={framingImage.originalFile.name}
+          focalPoint={framingImage.focalPoint}
+          cropRect={framingImage.cropRect}
+          outputAspect={(resizeDimensions.width || 512) / (resizeDimensions.height || 512)}
+          onApply={handleApplyFraming}
+          onClose={() => setFramingImageId(null)}
+        />
+      )}
+
+      {/* Full-screen before/after viewer */}
+      {compareImage && (
+        <CompareViewer
+          fileName={compareImage.originalFile.name}
+          original={{ url: compareImage.originalPreview, size: compareImage.originalFile.size, format: compareImage.inputKind }}
+          processed={compareImage.processedBlob ? {
+            url: compareImage.currentPreview,
+            size: compareImage.processedSize ?? compareImage.processedBlob.size,
+            width: compareImage.processedWidth,
+            height: compareImage.processedHeight,
+            format: compareImage.processedFormat,
+          } : undefined}
+          onClose={() => setCompareImageId(null)}
+        />
+      )}
+
+      {/* Per-image option overrides */}
+      {optionsImage && (
+        <ImageOptionsEditor
+          fileName={optionsImage.originalFile.name}
+          overrides={optionsImage.overrides}
+          batch={{
+            width: resizeDimensions.width || 512,
+            height: resizeDimensions.height || 512,
+            fit: fitOption,
+            borderRadius,
+            removeBackground,
+            format,
+            quality,
+          }}
+          canEncode={canEncode}
+          opaqueCutout={!keepsTransparency(true, background, removal)}
+          onApply={handleApplyOverrides}
+          onClose={() => setOptionsImageId(null)}
+        />
+      )}
+
       {/* Info Modal */}
       {showInfoModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 backdrop-blur-sm">
@@ -541,8 +1725,32 @@ export default function UploadDropzone() {
       <div {...getRootProps()} className={`border-2 border-dashed p-10 text-center cursor-pointer transition ${isDragActive ? "border-blue-500 bg-blue-50 dark:bg-blue-900/50" : "border-gray-300 dark:border-gray-600"} shadow-md rounded-lg`}>
         <input {...getInputProps()} />
         <p className="text-gray-600 dark:text-gray-400">Drag & drop images here, or click to select</p>
+        <p className="mt-1 text-xs text-gray-500">JPEG, PNG, WebP, AVIF, GIF, BMP, HEIC, TIFF and SVG</p>
       </div>
 
+      {/* Saved session storage */}
+      {storageUsage && (images.length > 0 || storageUsage.usage > 0) && (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+          <span>Session saved in this browser: {formatBytes(storageUsage.usage)} used of {formatBytes(storageUsage.quota)} available</span>
+          <button onClick={handleClearSavedSession} className="text-red-600 dark:text-red-400 hover:underline disabled:opacity-50" disabled={!sessionReady} title="Deletes the saved copy; the images on screen are saved again when something changes">Clear saved session</button>
+        </div>
+      )}
+      {sessionError && <p className="text-xs text-red-600 dark:text-red-400">{sessionError}</p>}
+      {sessionWarning && <p className="text-xs text-yellow-700 dark:text-yellow-400">{sessionWarning}</p>}
+
+      {/* Files turned away on drop */}
+      {rejectedFiles.length > 0 && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3 text-sm">
+          <div className="flex items-start justify-between gap-3">
+            <p className="font-medium text-red-700 dark:text-red-300">{rejectedFiles.length} file{rejectedFiles.length === 1 ? " wasn't" : "s weren't"} added</p>
+            <button onClick={() => setRejectedFiles([])} className="text-red-700 dark:text-red-300 hover:text-red-900 dark:hover:text-red-100 focus:outline-none" aria-label="Dismiss">&times;</button>
+          </div>
+          <ul className="mt-1 space-y-0.5 text-xs text-red-700 dark:text-red-300">
+            {rejectedFiles.map((file, i) => <li key={`${file.name}-${i}`}><strong>{file.name}</strong>: {file.reason}</li>)}
+          </ul>
+        </div>
+      )}
+
       {images.length > 0 && (
         <div className="space-y-6 bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 shadow-md"> {/* Options panel styling */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -564,7 +1772,14 @@ export default function UploadDropzone() {
                   <option value="cover">Cover</option>
                   <option value="contain">Contain</option>
                   <option value="crop">Crop</option>
+                  <option value="smart-cover">Smart Cover (subject)</option>
                 </select>
+                {fitOption === 'crop' && <p className="mt-1 text-xs text-gray-500">Uses each image&apos;s crop rectangle; images without one keep their original resolution around the focal point</p>}
+                {fitOption === 'smart-cover' && <p className="mt-1 text-xs text-gray-500">Finds the subject with the background removal model and crops around it; the background is kept unless removal is on</p>}
+              </div>
+              <div>
+                <label htmlFor="subjectPadding" className="block text-xs text-gray-600 dark:text-gray-400">Subject Padding: {subjectPadding}%</label>
+                <input type="range" id="subjectPadding" name="subjectPadding" min="0" max="100" value={subjectPadding} onChange={(e) => setSubjectPadding(parseInt(e.target.value, 10))} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || fitOption !== 'smart-cover'} />
               </div>
             </div>
             <div className="space-y-4">
@@ -587,11 +1802,226 @@ export default function UploadDropzone() {
               <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Output</h3>
               <div>
                 <label htmlFor="format" className="block text-xs text-gray-600 dark:text-gray-400">Format</label>
-                <select id="format" name="format" value={format} onChange={handleFormatChange} className="mt-1 block w-full pl-3 pr-10 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled}><option value="jpeg" disabled={removeBackground}>JPEG</option><option value="png">PNG</option><option value="webp">WebP</option></select>
+                <select id="format" name="format" value={format} onChange={handleFormatChange} className="mt-1 block w-full pl-3 pr-10 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled}><option value="jpeg" disabled={keepsTransparency(removeBackground, background, removal) || !canEncode('jpeg')}>{formatLabel('jpeg', 'JPEG')}</option><option value="png">PNG</option><option value="webp" disabled={!canEncode('webp')}>{formatLabel('webp', 'WebP')}</option><option value="avif" disabled={!canEncode('avif')}>{formatLabel('avif', 'AVIF')}</option></select>
+                {encoderSupport && format === 'avif' && !encoderSupport.avif && <p className="mt-1 text-xs text-gray-500">This browser can&apos;t encode AVIF natively, so a slower built-in encoder is used</p>}
               </div>
               <div>
                 <label htmlFor="quality" className="block text-xs text-gray-600 dark:text-gray-400">Quality: {quality}</label>
                 <input type="range" id="quality" name="quality" min="0" max="100" value={quality} onChange={handleQualityChange} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || format === 'png'} /> {/* Added focus:ring-2 */}
+                {maxFileSizeKB > 0 && format !== 'png' && <p className="mt-1 text-xs text-gray-500">Starting point; lowered as needed to fit the max file size</p>}
+              </div>
+              <div>
+                <label htmlFor="maxFileSizeKB" className="block text-xs text-gray-600 dark:text-gray-400">Max File Size (KB)</label>
+                <input type="number" id="maxFileSizeKB" name="maxFileSizeKB" min="0" value={maxFileSizeKB || ''} onChange={handleMaxFileSizeChange} placeholder="No limit" className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled} />
+                <div className="flex items-center gap-2 pt-2">
+                  <input type="checkbox" id="allowDownscale" checked={allowDownscale} onChange={(e) => setAllowDownscale(e.target.checked)} disabled={isUIDisabled || maxFileSizeKB === 0} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-offset-0" />
+                  <label htmlFor="allowDownscale" className="block text-xs text-gray-600 dark:text-gray-400">Shrink dimensions if quality alone isn&apos;t enough</label>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="metadata" className="block text-xs text-gray-600 dark:text-gray-400">Metadata</label>
+                <select id="metadata" name="metadata" value={metadataMode} onChange={(e) => setMetadataMode(e.target.value as MetadataMode)} className="mt-1 block w-full pl-3 pr-10 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled}>
+                  <option value="strip">Strip all (private)</option>
+                  <option value="basic">Keep copyright, author &amp; date</option>
+                  <option value="icc">Keep ICC colour profile only</option>
+                </select>
+                {metadataMode !== 'strip' && format !== 'jpeg' && format !== 'webp' && <p className="mt-1 text-xs text-gray-500">Metadata is only written to JPEG and WebP output</p>}
+              </div>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 mt-6">
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Watermark</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="watermarkType" className="block text-xs text-gray-600 dark:text-gray-400">Type</label>
+                    <select id="watermarkType" name="watermarkType" value={watermark.type} onChange={(e) => updateWatermark({ type: e.target.value as WatermarkSettings['type'] })} className="mt-1 block w-full pl-3 pr-10 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled}>
+                      <option value="none">None</option>
+                      <option value="text">Text</option>
+                      <option value="image">Logo (PNG)</option>
+                    </select>
+                  </div>
+                  {watermark.type === 'text' && (
+                    <div className="grid grid-cols-[1fr_auto] gap-2">
+                      <div>
+                        <label htmlFor="watermarkText" className="block text-xs text-gray-600 dark:text-gray-400">Text</label>
+                        <input type="text" id="watermarkText" name="watermarkText" value={watermark.text} onChange={(e) => updateWatermark({ text: e.target.value })} placeholder="© Your Company" className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled} />
+                      </div>
+                      <div>
+                        <label htmlFor="watermarkColor" className="block text-xs text-gray-600 dark:text-gray-400">Colour</label>
+                        <input type="color" id="watermarkColor" name="watermarkColor" value={watermark.color} onChange={(e) => updateWatermark({ color: e.target.value })} className="mt-1 block h-9 w-12 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700" disabled={isUIDisabled} />
+                      </div>
+                    </div>
+                  )}
+                  {watermark.type === 'image' && (
+                    <div>
+                      <label htmlFor="watermarkImage" className="block text-xs text-gray-600 dark:text-gray-400">Logo</label>
+                      <div className="mt-1 flex items-center gap-2">
+                        {watermark.imageDataUrl && <img src={watermark.imageDataUrl} alt="Watermark logo" className="h-9 w-9 object-contain rounded border border-gray-300 dark:border-gray-600 bg-gray-200 dark:bg-gray-600" />}
+                        <input type="file" id="watermarkImage" accept="image/png" onChange={handleWatermarkImageChange} className="block w-full text-xs text-gray-600 dark:text-gray-400 file:mr-2 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-gray-200 dark:file:bg-gray-700 file:text-gray-800 dark:file:text-white" disabled={isUIDisabled} />
+                      </div>
+                      {watermarkError && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{watermarkError}</p>}
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <span className="block text-xs text-gray-600 dark:text-gray-400">Position</span>
+                  <div className="flex items-start gap-3">
+                    <div className="grid grid-cols-3 gap-1" role="radiogroup" aria-label="Watermark position">
+                      {WATERMARK_GRID.map(position => (
+                        <button key={position} type="button" role="radio" aria-checked={watermark.position === position} aria-label={position} title={position} onClick={() => updateWatermark({ position })} className={`w-6 h-6 rounded border ${watermark.position === position ? 'bg-blue-600 border-blue-600' : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'} disabled:opacity-50`} disabled={isUIDisabled || watermark.type === 'none'} />
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <input type="checkbox" id="watermarkTiled" checked={watermark.position === 'tiled'} onChange={(e) => updateWatermark({ position: e.target.checked ? 'tiled' : defaultOptions.watermark.position })} disabled={isUIDisabled || watermark.type === 'none'} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-offset-0" />
+                      <label htmlFor="watermarkTiled" className="block text-xs text-gray-600 dark:text-gray-400">Tile across image</label>
+                    </div>
+                  </div>
+                </div>
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="watermarkOpacity" className="block text-xs text-gray-600 dark:text-gray-400">Opacity: {watermark.opacity}%</label>
+                    <input type="range" id="watermarkOpacity" name="watermarkOpacity" min="0" max="100" value={watermark.opacity} onChange={(e) => updateWatermark({ opacity: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || watermark.type === 'none'} />
+                  </div>
+                  <div>
+                    <label htmlFor="watermarkScale" className="block text-xs text-gray-600 dark:text-gray-400">Size: {watermark.scale}% of width</label>
+                    <input type="range" id="watermarkScale" name="watermarkScale" min="5" max="100" value={watermark.scale} onChange={(e) => updateWatermark({ scale: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || watermark.type === 'none'} />
+                  </div>
+                  <div>
+                    <label htmlFor="watermarkMargin" className="block text-xs text-gray-600 dark:text-gray-400">Margin: {watermark.margin}px</label>
+                    <input type="range" id="watermarkMargin" name="watermarkMargin" min="0" max="200" value={watermark.margin} onChange={(e) => updateWatermark({ margin: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || watermark.type === 'none'} />
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 mt-6">
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Background</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                <div>
+                  <label htmlFor="removalEngine" className="block text-xs text-gray-600 dark:text-gray-400">Removal engine</label>
+                  <select id="removalEngine" name="removalEngine" value={removal.engine} onChange={(e) => updateRemoval({ engine: e.target.value as RemovalSettings['engine'] })} className="mt-1 block w-full pl-3 pr-10 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled || (!removeBackground && fitOption !== 'smart-cover')}>
+                    <option value="imgly">AI model</option>
+                    <option value="flood-fill">Flood fill (plain backgrounds, no download)</option>
+                  </select>
+                </div>
+                {removal.engine === 'imgly' ? (
+                  <div>
+                    <label htmlFor="removalModel" className="block text-xs text-gray-600 dark:text-gray-400">Model</label>
+                    <select id="removalModel" name="removalModel" value={removal.model} onChange={(e) => updateRemoval({ model: e.target.value as ImglyModel })} className="mt-1 block w-full pl-3 pr-10 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled || (!removeBackground && fitOption !== 'smart-cover')}>
+                      {(Object.keys(IMGLY_MODEL_LABELS) as ImglyModel[]).map(model => <option key={model} value={model}>{IMGLY_MODEL_LABELS[model]}</option>)}
+                    </select>
+                  </div>
+                ) : (
+                  <>
+                    <div>
+                      <label htmlFor="removalEdgeSampling" className="block text-xs text-gray-600 dark:text-gray-400">Background colour from</label>
+                      <select id="removalEdgeSampling" name="removalEdgeSampling" value={removal.edgeSampling} onChange={(e) => updateRemoval({ edgeSampling: e.target.value as EdgeSampling })} className="mt-1 block w-full pl-3 pr-10 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled || (!removeBackground && fitOption !== 'smart-cover')}>
+                        {(Object.keys(EDGE_SAMPLING_LABELS) as EdgeSampling[]).map(mode => <option key={mode} value={mode}>{EDGE_SAMPLING_LABELS[mode]}</option>)}
+                      </select>
+                    </div>
+                    <div className="space-y-2">
+                      <div>
+                        <label htmlFor="removalTolerance" className="block text-xs text-gray-600 dark:text-gray-400">Tolerance: {removal.tolerance}</label>
+                        <input type="range" id="removalTolerance" name="removalTolerance" min="0" max="150" value={removal.tolerance} onChange={(e) => updateRemoval({ tolerance: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || (!removeBackground && fitOption !== 'smart-cover')} />
+                      </div>
+                      <div>
+                        <label htmlFor="removalFeather" className="block text-xs text-gray-600 dark:text-gray-400">Feather: {removal.feather}px</label>
+                        <input type="range" id="removalFeather" name="removalFeather" min="0" max="20" value={removal.feather} onChange={(e) => updateRemoval({ feather: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || (!removeBackground && fitOption !== 'smart-cover')} />
+                      </div>
+                    </div>
+                  </>
+                )}
+                <div>
+                  <label htmlFor="removalOutput" className="block text-xs text-gray-600 dark:text-gray-400">Output</label>
+                  <select id="removalOutput" name="removalOutput" value={removal.output} onChange={(e) => updateRemoval({ output: e.target.value as RemovalOutput })} className="mt-1 block w-full pl-3 pr-10 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled || !removeBackground}>
+                    <option value="foreground">Cutout</option>
+                    <option value="mask">Mask only</option>
+                    <option value="both">Cutout and mask</option>
+                  </select>
+                  {removal.output === 'both' && removeBackground && <p className="mt-1 text-xs text-gray-500">Each cutout gets a PNG mask saved next to it with a _mask suffix</p>}
+                </div>
+              </div>
+              {!removeBackground && <p className="text-xs text-gray-500">Turn on Remove Background to replace the background behind the subject.</p>}
+              {removeBackground && removal.output === 'mask' && <p className="text-xs text-gray-500">Masks are white on black, so the fill, shadow and watermark aren&apos;t applied.</p>}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="backgroundType" className="block text-xs text-gray-600 dark:text-gray-400">Fill</label>
+                    <select id="backgroundType" name="backgroundType" value={background.type} onChange={handleBackgroundTypeChange} className="mt-1 block w-full pl-3 pr-10 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled || !removeBackground}>
+                      <option value="transparent">Transparent</option>
+                      <option value="color">Solid colour</option>
+                      <option value="linear-gradient">Linear gradient</option>
+                      <option value="radial-gradient">Radial gradient</option>
+                      <option value="image">Image</option>
+                      <option value="blur">Blurred original</option>
+                    </select>
+                  </div>
+                  {background.type === 'color' && (
+                    <div>
+                      <label htmlFor="backgroundColor" className="block text-xs text-gray-600 dark:text-gray-400">Colour</label>
+                      <input type="color" id="backgroundColor" name="backgroundColor" value={background.color} onChange={(e) => updateBackground({ color: e.target.value })} className="mt-1 block h-9 w-12 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700" disabled={isUIDisabled || !removeBackground} />
+                    </div>
+                  )}
+                  {(background.type === 'linear-gradient' || background.type === 'radial-gradient') && (
+                    <div className="flex items-end gap-2">
+                      <div>
+                        <label htmlFor="backgroundGradientFrom" className="block text-xs text-gray-600 dark:text-gray-400">{background.type === 'radial-gradient' ? 'Centre' : 'From'}</label>
+                        <input type="color" id="backgroundGradientFrom" name="backgroundGradientFrom" value={background.gradientFrom} onChange={(e) => updateBackground({ gradientFrom: e.target.value })} className="mt-1 block h-9 w-12 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700" disabled={isUIDisabled || !removeBackground} />
+                      </div>
+                      <div>
+                        <label htmlFor="backgroundGradientTo" className="block text-xs text-gray-600 dark:text-gray-400">{background.type === 'radial-gradient' ? 'Edge' : 'To'}</label>
+                        <input type="color" id="backgroundGradientTo" name="backgroundGradientTo" value={background.gradientTo} onChange={(e) => updateBackground({ gradientTo: e.target.value })} className="mt-1 block h-9 w-12 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700" disabled={isUIDisabled || !removeBackground} />
+                      </div>
+                      {background.type === 'linear-gradient' && (
+                        <div className="flex-grow">
+                          <label htmlFor="backgroundGradientAngle" className="block text-xs text-gray-600 dark:text-gray-400">Angle: {background.gradientAngle}°</label>
+                          <input type="range" id="backgroundGradientAngle" name="backgroundGradientAngle" min="0" max="359" value={background.gradientAngle} onChange={(e) => updateBackground({ gradientAngle: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || !removeBackground} />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {background.type === 'image' && (
+                    <div>
+                      <label htmlFor="backgroundImage" className="block text-xs text-gray-600 dark:text-gray-400">Image</label>
+                      <div className="mt-1 flex items-center gap-2">
+                        {background.imageDataUrl && <img src={background.imageDataUrl} alt="Background" className="h-9 w-9 object-cover rounded border border-gray-300 dark:border-gray-600" />}
+                        <input type="file" id="backgroundImage" accept="image/png,image/jpeg" onChange={handleBackgroundImageChange} className="block w-full text-xs text-gray-600 dark:text-gray-400 file:mr-2 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-gray-200 dark:file:bg-gray-700 file:text-gray-800 dark:file:text-white" disabled={isUIDisabled || !removeBackground} />
+                      </div>
+                      {backgroundError && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{backgroundError}</p>}
+                    </div>
+                  )}
+                  {background.type === 'blur' && (
+                    <div>
+                      <label htmlFor="backgroundBlur" className="block text-xs text-gray-600 dark:text-gray-400">Blur: {background.blurRadius}px</label>
+                      <input type="range" id="backgroundBlur" name="backgroundBlur" min="1" max="100" value={background.blurRadius} onChange={(e) => updateBackground({ blurRadius: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || !removeBackground} />
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <input type="checkbox" id="backgroundShadow" checked={background.shadow} onChange={(e) => updateBackground({ shadow: e.target.checked })} disabled={isUIDisabled || !removeBackground} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-offset-0" />
+                    <label htmlFor="backgroundShadow" className="block text-xs text-gray-600 dark:text-gray-400">Drop shadow under the subject</label>
+                  </div>
+                  <div>
+                    <label htmlFor="backgroundShadowOpacity" className="block text-xs text-gray-600 dark:text-gray-400">Shadow opacity: {background.shadowOpacity}%</label>
+                    <input type="range" id="backgroundShadowOpacity" name="backgroundShadowOpacity" min="0" max="100" value={background.shadowOpacity} onChange={(e) => updateBackground({ shadowOpacity: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || !removeBackground || !background.shadow} />
+                  </div>
+                </div>
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="backgroundShadowBlur" className="block text-xs text-gray-600 dark:text-gray-400">Shadow softness: {background.shadowBlur}px</label>
+                    <input type="range" id="backgroundShadowBlur" name="backgroundShadowBlur" min="0" max="100" value={background.shadowBlur} onChange={(e) => updateBackground({ shadowBlur: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || !removeBackground || !background.shadow} />
+                  </div>
+                  <div>
+                    <label htmlFor="backgroundShadowOffset" className="block text-xs text-gray-600 dark:text-gray-400">Shadow offset: {background.shadowOffsetY}px</label>
+                    <input type="range" id="backgroundShadowOffset" name="backgroundShadowOffset" min="0" max="100" value={background.shadowOffsetY} onChange={(e) => updateBackground({ shadowOffsetY: parseInt(e.target.value, 10) })} className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" disabled={isUIDisabled || !removeBackground || !background.shadow} />
+                  </div>
+                </div>
               </div>
             </div>
           </div>
@@ -599,10 +2029,30 @@ export default function UploadDropzone() {
           <div className="pt-4 border-t border-gray-200 dark:border-gray-700 mt-6"> {/* Added mt-6 for spacing */}
             <div className="space-y-3">
               <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Presets</h3>
+              <div className="flex items-center gap-2">
+                <input type="checkbox" id="multiPresetMode" checked={multiPresetMode} onChange={(e) => { setMultiPresetMode(e.target.checked); if (e.target.checked) setIconSetMode(false); }} disabled={isUIDisabled} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-offset-0" />
+                <label htmlFor="multiPresetMode" className="block text-xs text-gray-600 dark:text-gray-400">Export several presets in one run</label>
+              </div>
+              <div className="flex items-center gap-2">
+                <input type="checkbox" id="iconSetMode" checked={iconSetMode} onChange={(e) => { setIconSetMode(e.target.checked); if (e.target.checked) setMultiPresetMode(false); }} disabled={isUIDisabled} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-offset-0" />
+                <label htmlFor="iconSetMode" className="block text-xs text-gray-600 dark:text-gray-400">Generate a full app icon set (iOS, Android, web)</label>
+              </div>
+              {iconSetMode && (
+                <p className="text-xs text-gray-500">
+                  Builds an Xcode AppIcon.appiconset, Android mipmap folders with adaptive foreground and background layers, and a web set with favicon.ico and manifest icons, all as PNG. Size, format and per-image options are ignored; the fit and background removal settings still apply.
+                </p>
+              )}
+              {multiPresetMode && (
+                <p className="text-xs text-gray-500">
+                  {presetVariantKeys.length === 0
+                    ? 'Pick the presets to export; each image is processed once per preset.'
+                    : `${presetVariantKeys.length} preset${presetVariantKeys.length === 1 ? '' : 's'} selected. The ZIP gets one folder per preset.`}
+                </p>
+              )}
               <div className="flex flex-wrap items-center gap-2">
                 <button
                   onClick={() => handlePresetSelect(null)}
-                  disabled={isUIDisabled}
+                  disabled={isUIDisabled || multiPresetMode}
                   className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-colors disabled:opacity-50 ${selectedPreset === null
                     ? 'bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800'
                     : 'bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 active:bg-gray-400 dark:active:bg-gray-500'
@@ -611,16 +2061,23 @@ export default function UploadDropzone() {
                   Custom Size
                 </button>
               </div>
-              {Object.entries(presets).map(([category, items]) => (
+              {Object.entries(allPresets).map(([category, items]) => (
                 <div key={category}>
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{category}</p>
+                  <div className="flex items-center gap-2 mb-2">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{category}</p>
+                    {multiPresetMode && (
+                      <button onClick={() => handleToggleExportCategory(category)} disabled={isUIDisabled} className="text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50">
+                        {Object.keys(items).every(key => exportPresetKeys.includes(key)) ? 'Clear' : 'Select all'}
+                      </button>
+                    )}
+                  </div>
                   <div className="flex flex-wrap gap-2">
                     {Object.entries(items).map(([key, preset]) => (
                       <button
                         key={key}
                         onClick={() => handlePresetSelect(key)}
                         disabled={isUIDisabled}
-                        className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-colors disabled:opacity-50 ${selectedPreset === key
+                        className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-colors disabled:opacity-50 ${(multiPresetMode ? exportPresetKeys.includes(key) : selectedPreset === key)
                           ? 'bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800'
                           : 'bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 active:bg-gray-400 dark:active:bg-gray-500'
                           } focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800`}
@@ -631,6 +2088,23 @@ export default function UploadDropzone() {
                   </div>
                 </div>
               ))}
+
+              {/* Save / manage user presets */}
+              <div className="flex flex-wrap items-center gap-2 pt-2">
+                <input type="text" aria-label="Preset name" value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="Preset name" className="px-3 py-1.5 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-xs text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500" disabled={isProcessing} />
+                <button onClick={handleSavePreset} disabled={isProcessing || !presetName.trim()} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800">Save as Preset</button>
+                {isUserPresetSelected && (
+                  <>
+                    <button onClick={handleUpdatePreset} disabled={isProcessing || !presetName.trim()} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800">Update Preset</button>
+                    <button onClick={handleDeletePreset} disabled={isProcessing} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-red-500 text-white hover:bg-red-600 active:bg-red-700 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800">Delete Preset</button>
+                  </>
+                )}
+                <button onClick={() => presetFileInputRef.current?.click()} disabled={isProcessing} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800">Import</button>
+                <button onClick={handleExportPresets} disabled={Object.keys(userPresets).length === 0} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800">Export</button>
+                <input ref={presetFileInputRef} type="file" accept="application/json,.json" onChange={handleImportPresets} className="hidden" />
+              </div>
+              {presetImportError && <p className="text-xs text-red-600 dark:text-red-400">{presetImportError}</p>}
+              {presetSaveError && <p className="text-xs text-red-600 dark:text-red-400">{presetSaveError}</p>}
             </div>
           </div>
 
@@ -640,44 +2114,181 @@ export default function UploadDropzone() {
             <div>
               <label htmlFor="filenameTemplate" className="block text-xs text-gray-600 dark:text-gray-400">Filename Template</label>
               <input type="text" id="filenameTemplate" name="filenameTemplate" value={filenameTemplate} onChange={handleFilenameTemplateChange} placeholder="{name}_{index}" className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={isUIDisabled} />
-              <p className="mt-1 text-xs text-gray-500">Variables: {'{name}, {ext}, {index}, {width}, {height}, {ratio}, {preset}, {timestamp}'}</p>
+              <FilenamePreview
+                template={filenameTemplate}
+                images={images.slice(0, FILENAME_PREVIEW_COUNT).map((img, index) => ({ id: img.id, file: img.originalFile, previewUrl: img.originalPreview, index }))}
+                format={keepsTransparency(removeBackground, background, removal) && format === 'jpeg' ? 'png' : format}
+                width={resizeDimensions.width || defaultOptions.resizeDimensions.width}
+                height={resizeDimensions.height || defaultOptions.resizeDimensions.height}
+                presetName={selectedPreset}
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="zipCompression" className="block text-xs text-gray-600 dark:text-gray-400">ZIP Compression</label>
+                <select id="zipCompression" value={zipCompression} onChange={(e) => setZipCompression(e.target.value as ZipCompression)} className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={!!zipProgress}>
+                  <option value="store">None (fastest; images are already compressed)</option>
+                  <option value="deflate">Deflate</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="manifestFormat" className="block text-xs text-gray-600 dark:text-gray-400">Manifest</label>
+                <select id="manifestFormat" value={manifestFormat} onChange={(e) => setManifestFormat(e.target.value as ManifestFormat)} className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={!!zipProgress}>
+                  <option value="none">None</option>
+                  <option value="json">manifest.json</option>
+                  <option value="csv">manifest.csv</option>
+                  <option value="both">JSON and CSV</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="splitSizeMB" className="block text-xs text-gray-600 dark:text-gray-400">Split Archives Over (MB)</label>
+                <input type="number" id="splitSizeMB" min="0" value={splitSizeMB} onChange={(e) => setSplitSizeMB(Math.max(0, parseInt(e.target.value, 10) || 0))} className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={!!zipProgress} />
+                <p className="mt-1 text-xs text-gray-500">0 keeps everything in one archive</p>
+              </div>
             </div>
+            {canSaveToFolder && (
+              <div>
+                <label htmlFor="existingFileRule" className="block text-xs text-gray-600 dark:text-gray-400">When Saving to a Folder, Existing Files Are</label>
+                <select id="existingFileRule" value={existingFileRule} onChange={(e) => setExistingFileRule(e.target.value as ExistingFileRule)} className="mt-1 block w-full sm:w-1/3 px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm" disabled={!!folderProgress}>
+                  <option value="rename">Kept; new files get a (1) suffix</option>
+                  <option value="skip">Kept; new files are skipped</option>
+                  <option value="overwrite">Overwritten</option>
+                </select>
+              </div>
+            )}
           </div>
 
           {/* Action Buttons */}
           <div className="flex flex-wrap gap-3 pt-4 border-t border-gray-200 dark:border-gray-700 mt-6">
-            <button onClick={handleProcessImages} className="px-4 py-2 bg-black text-white rounded-md text-sm disabled:bg-gray-400 hover:bg-gray-800 active:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={isUIDisabled}>Process Images</button>
-            <button onClick={handleDownloadZip} className="px-4 py-2 bg-green-600 text-white rounded-md text-sm disabled:bg-gray-400 hover:bg-green-700 active:bg-green-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={!hasProcessedImages || isProcessing}>Download ZIP</button>
+            <button onClick={handleProcessImages} className="px-4 py-2 bg-black text-white rounded-md text-sm disabled:bg-gray-400 hover:bg-gray-800 active:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={isUIDisabled}>{iconSetMode ? 'Generate Icon Sets' : presetVariantKeys.length > 0 ? `Process Images (${presetVariantKeys.length} presets)` : hasProcessedImages ? 'Process Again' : 'Process Images'}{selectedImages.length > 0 && ` – ${selectedImages.length} selected`}</button>
+            {selectedImages.length > 0 && (
+              <button onClick={() => setSelectedImageIds(new Set())} className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-white rounded-md text-sm disabled:opacity-50 hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={isProcessing}>Clear Selection</button>
+            )}
+            {failedImageCount > 0 && (
+              <button onClick={handleRetryFailed} className="px-4 py-2 bg-orange-500 text-white rounded-md text-sm disabled:bg-gray-400 hover:bg-orange-600 active:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={isProcessing}>Retry Failed ({failedImageCount})</button>
+            )}
+            {isProcessing && (
+              <>
+                <button onClick={handleTogglePause} className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm disabled:bg-gray-400 hover:bg-blue-700 active:bg-blue-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={isCancelling}>{isPaused ? 'Resume' : 'Pause'}</button>
+                <button onClick={handleCancelProcessing} className="px-4 py-2 bg-gray-600 text-white rounded-md text-sm disabled:bg-gray-400 hover:bg-gray-700 active:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={isCancelling}>{isCancelling ? 'Cancelling…' : 'Cancel'}</button>
+              </>
+            )}
+            <button onClick={handleDownloadZip} className="px-4 py-2 bg-green-600 text-white rounded-md text-sm disabled:bg-gray-400 hover:bg-green-700 active:bg-green-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={!hasProcessedImages || isProcessing || !!zipProgress}>{zipProgress ? 'Zipping…' : 'Download ZIP'}</button>
+            <button onClick={() => handleSaveToFolder(false)} className="px-4 py-2 bg-green-600 text-white rounded-md text-sm disabled:bg-gray-400 hover:bg-green-700 active:bg-green-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={!hasProcessedImages || isProcessing || !!folderProgress || !!zipProgress} title={canSaveToFolder ? undefined : "This browser can't write to folders, so this downloads a ZIP instead"}>{folderProgress ? 'Saving…' : 'Save to Folder…'}</button>
+            {canSaveToFolder && lastFolder && (
+              <button onClick={() => handleSaveToFolder(true)} className="px-4 py-2 bg-green-600 text-white rounded-md text-sm disabled:bg-gray-400 hover:bg-green-700 active:bg-green-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={!hasProcessedImages || isProcessing || !!folderProgress || !!zipProgress}>Save to &quot;{lastFolder.name}&quot;</button>
+            )}
             <button onClick={handleResetEffects} className="px-4 py-2 bg-yellow-500 text-black rounded-md text-sm disabled:bg-gray-400 hover:bg-yellow-600 active:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={!hasProcessedImages || isProcessing}>Reset Effects</button>
             <button onClick={clearAll} className="px-4 py-2 bg-red-600 text-white rounded-md text-sm disabled:bg-gray-400 hover:bg-red-700 active:bg-red-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800" disabled={isProcessing}>Clear All</button>
           </div>
         </div>
       )}
 
+      {/* ZIP Progress */}
+      {zipProgress && (
+        <div className="mt-6 space-y-1">
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Building {zipProgress.partCount > 1 ? `archive ${zipProgress.part} of ${zipProgress.partCount}` : 'ZIP'}… {Math.floor(zipProgress.percent)}%
+          </p>
+          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2"><div className="bg-green-600 h-2 rounded-full" style={{ width: `${zipProgress.percent}%` }}></div></div>
+        </div>
+      )}
+      {zipError && <p className="text-sm text-red-600 dark:text-red-400 mt-6">{zipError}</p>}
+
+      {/* Folder Save Progress */}
+      {folderProgress && (
+        <div className="mt-6 space-y-1">
+          <p className="text-xs text-gray-600 dark:text-gray-400">Saving {folderProgress.done} of {folderProgress.total} files…</p>
+          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2"><div className="bg-green-600 h-2 rounded-full" style={{ width: `${folderProgress.total > 0 ? (folderProgress.done / folderProgress.total) * 100 : 0}%` }}></div></div>
+        </div>
+      )}
+      {folderMessage && <p className={`text-sm mt-6 ${folderMessage.isError ? 'text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'}`}>{folderMessage.text}</p>}
+
+      {/* Run Summary */}
+      {runError && !isProcessing && <p className="text-sm text-red-600 dark:text-red-400 mt-6">{runError}</p>}
+      {lastRunSummary && !isProcessing && (
+        <p className="text-sm text-gray-700 dark:text-gray-300 mt-6">
+          {lastRunSummary.cancelled ? 'Cancelled after processing' : 'Processed'} {lastRunSummary.processedCount} {variantKeys.length > 0 ? 'output' : 'image'}{lastRunSummary.processedCount === 1 ? '' : 's'}
+          {lastRunSummary.failedCount > 0 && <span className="text-red-600 dark:text-red-400">, {lastRunSummary.failedCount} failed</span>}
+        </p>
+      )}
+
       {/* Progress Bar */}
-      {isProcessing && <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5 transition-all duration-500 ease-out mt-6"><div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${overallProgress}%` }}></div></div>}
+      {isProcessing && <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5 transition-all duration-500 ease-out mt-6"><div className={`${isPaused ? 'bg-yellow-500' : 'bg-blue-600'} h-2.5 rounded-full`} style={{ width: `${overallProgress}%` }}></div></div>}
+      {isProcessing && isPaused && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Paused. Images already in progress will finish first.</p>}
 
       {/* Image Grid */}
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 mt-6">
         {images.map((img) => (
           <div key={img.id} className="relative aspect-square bg-gray-100 dark:bg-gray-800 rounded-lg shadow-md overflow-hidden group">
-            <img src={img.currentPreview} alt={`preview of ${img.originalFile.name}`} className="w-full h-full object-cover rounded-md" />
+            {img.processedBlob || NATIVE_INPUT_KINDS.includes(img.inputKind) || img.inputKind === 'svg' ? (
+              /* Processed cards open the viewer from their overlay; unprocessed ones from the thumbnail */
+              <img src={img.currentPreview} alt={`preview of ${img.originalFile.name}`} onClick={() => setCompareImageId(img.id)} className="w-full h-full object-cover rounded-md cursor-zoom-in" />
+            ) : (
+              /* Most browsers can't display HEIC/TIFF, so show a placeholder until it's been processed */
+              <div className="w-full h-full flex flex-col items-center justify-center text-gray-500 dark:text-gray-400 text-xs p-2 text-center">
+                <span className="text-lg font-bold uppercase">{img.inputKind}</span>
+                <span className="truncate w-full">{img.originalFile.name}</span>
+              </div>
+            )}
 
-            {/* Close button for unprocessed images */}
-            {!img.processedBlob && !isProcessing && (
-              <button
-                onClick={() => removeImage(img.id)}
-                className="absolute top-1 right-1 bg-red-500 text-white rounded-full p-1 text-xs hover:bg-red-600 active:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500"
-                disabled={isProcessing}
-              >
-                &times;
-              </button>
+            {/* Selection for re-processing, and a close button for unprocessed images */}
+            {!isProcessing && (
+              <div className="absolute top-1 right-1 z-10 flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={selectedImageIds.has(img.id)}
+                  onChange={() => toggleImageSelected(img.id)}
+                  title="Select to process only the selected images"
+                  aria-label={`Select ${img.originalFile.name}`}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 focus:ring-offset-0"
+                />
+                {!img.processedBlob && (
+                  <button
+                    onClick={() => removeImage(img.id)}
+                    className="bg-red-500 text-white rounded-full p-1 text-xs hover:bg-red-600 active:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+                  >
+                    &times;
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Per-image buttons, kept above the hover overlay so they still work once processed; HEIC/TIFF have no preview to pick a framing point on */}
+            {!isProcessing && (
+              <div className="absolute top-1 left-1 z-10 flex gap-1">
+                {img.inputKind !== 'heic' && img.inputKind !== 'tiff' && (
+                  <button
+                    onClick={() => setFramingImageId(img.id)}
+                    title="Set focal point or crop"
+                    className={`rounded-full px-2 py-0.5 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 ${img.focalPoint || img.cropRect ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-black/60 text-white hover:bg-black/80'}`}
+                  >
+                    {img.cropRect ? 'Cropped' : img.focalPoint ? 'Focus set' : 'Frame'}
+                  </button>
+                )}
+                <button
+                  onClick={() => setOptionsImageId(img.id)}
+                  title={img.overrides ? describeOverrides(img.overrides) : "Override options for this image"}
+                  className={`rounded-full px-2 py-0.5 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 ${img.overrides ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-black/60 text-white hover:bg-black/80'}`}
+                >
+                  {img.overrides ? 'Custom' : 'Options'}
+                </button>
+              </div>
+            )}
+
+            {/* Marker for images with their own settings while the buttons are hidden */}
+            {img.overrides && isProcessing && (
+              <span className="absolute top-1 left-1 rounded-full bg-blue-600 text-white px-2 py-0.5 text-xs" title={describeOverrides(img.overrides)}>Custom</span>
             )}
 
             {/* Spinner overlay during processing */}
-            {isProcessing && (
-              <div className="absolute inset-0 bg-black/50 flex items-center justify-center pointer-events-none">
-                {processedImageNames.has(img.originalFile.name) ? (
+            {isProcessing && runImageIds.has(img.id) && (
+              <div className={`absolute inset-0 ${processedImageNames.has(img.originalFile.name) ? 'bg-black/10' : 'bg-black/50'} flex items-center justify-center pointer-events-none transition-colors`}> {/* Lighter once done so the new preview shows through */}
+                {img.error ? (
+                  <svg className="w-8 h-8 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                ) : processedImageNames.has(img.originalFile.name) ? (
                   <svg className="w-8 h-8 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
@@ -690,9 +2301,17 @@ export default function UploadDropzone() {
               </div>
             )}
 
+            {/* Error badge for images that failed in the last run */}
+            {img.error && !isProcessing && (
+              <div className="absolute bottom-0 inset-x-0 bg-red-600/90 text-white text-xs p-2" title={img.error.message}>
+                <p className="font-semibold">{img.error.stage ? `Failed at ${img.error.stage.replace('-', ' ')}` : 'Not processed'}</p>
+                <p className="truncate">{img.error.message}</p>
+              </div>
+            )}
+
             {/* Hover Overlay for Info + Buttons */}
             {img.processedBlob && (
-              <div className="absolute inset-0 bg-black/70 text-white text-xs p-2 overflow-auto flex flex-col justify-between opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-auto">
+              <div className="absolute inset-0 bg-black/70 text-white text-xs p-2 pt-8 overflow-auto flex flex-col justify-between opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-auto">
                 <div>
                   <p><strong>Original:</strong> {img.originalFile.name}</p>
                   <p><strong>Size:</strong> {formatBytes(img.originalFile.size)}</p>
@@ -700,16 +2319,63 @@ export default function UploadDropzone() {
                   {img.processedSize !== undefined && <p><strong>Size:</strong> {formatBytes(img.processedSize)}</p>}
                   {img.processedWidth && img.processedHeight && <p><strong>Dims:</strong> {img.processedWidth}x{img.processedHeight}</p>}
                   {img.processedFormat && <p><strong>Format:</strong> {img.processedFormat.toUpperCase()}</p>}
+                  {img.processedQuality !== undefined && <p><strong>Quality:</strong> {img.processedQuality}</p>}
+                  {img.targetSizeMet === false && <p className="text-yellow-300">Couldn&apos;t reach the max file size</p>}
+                  {img.rotatedFromExif && <p className="text-blue-300">Rotated from EXIF</p>}
+                  {img.processedOptions && <p><strong>Settings:</strong> {describeOptions(img.processedOptions)}</p>}
+                  {img.iconSet && img.outputs && <p><strong>Icon set:</strong> {img.outputs.length} of {ICON_SET_SPECS.length} files</p>}
+                  {!img.iconSet && img.outputs && img.outputs.length > 1 && (
+                    <div className="mt-1">
+                      <p><strong>Outputs:</strong></p>
+                      {img.outputs.map(output => (
+                        <p key={output.presetKey} className="truncate" title={output.fileName}>
+                          {output.presetName}: {output.width}x{output.height}, {formatBytes(output.size)}
+                          {output.targetSizeMet === false && <span className="text-yellow-300"> (over max size)</span>}
+                        </p>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
+                {/* Undo and redo between this image's runs */}
+                {img.history && img.history.length > 1 && img.historyIndex !== undefined && (
+                  <div className="flex items-center justify-between mt-2 gap-2">
+                    <button
+                      onClick={() => handleShowVersion(img.id, img.historyIndex! - 1)}
+                      title="Undo: show the previous version"
+                      className="px-2 py-1 bg-white/20 rounded-md text-xs hover:bg-white/30 disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      disabled={isProcessing || img.historyIndex === 0}
+                    >
+                      &larr;
+                    </button>
+                    <span>Version {img.historyIndex + 1} of {img.history.length}</span>
+                    <button
+                      onClick={() => handleShowVersion(img.id, img.historyIndex! + 1)}
+                      title="Redo: show the next version"
+                      className="px-2 py-1 bg-white/20 rounded-md text-xs hover:bg-white/30 disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      disabled={isProcessing || img.historyIndex === img.history.length - 1}
+                    >
+                      &rarr;
+                    </button>
+                  </div>
+                )}
+
                 {/* Buttons at the bottom of overlay */}
                 <div className="flex justify-between mt-2 gap-2">
+                  <button
+                    onClick={() => setCompareImageId(img.id)}
+                    title="Compare with the original"
+                    className="px-2 py-1 bg-white/20 text-white rounded-md text-xs hover:bg-white/30 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800"
+                  >
+                    Compare
+                  </button>
+
                   <button
                     onClick={() => handleDownloadSingleFile(img)}
                     className="flex-1 px-2 py-1 bg-blue-600 text-white rounded-md text-xs hover:bg-blue-700 active:bg-blue-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800"
                     disabled={!img.processedBlob || isProcessing}
                   >
-                    Download
+                    {img.outputs && img.outputs.length > 1 ? 'Download All' : 'Download'}
                   </button>
 
                   <button
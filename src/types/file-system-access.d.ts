@@ -0,0 +1,32 @@
+// Parts of the File System Access API that TypeScript's DOM types don't include (Chromium-only so far)
+
+interface FileSystemHandlePermissionDescriptor {
+  mode?: "read" | "readwrite";
+}
+
+interface FileSystemHandle {
+  queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
+  requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
+}
+
+interface FileSystemDirectoryHandle {
+  keys(): AsyncIterableIterator<string>;
+}
+
+interface DirectoryPickerOptions {
+  id?: string; // Browsers remember the last location separately per id
+  mode?: "read" | "readwrite";
+  startIn?: FileSystemHandle | "desktop" | "documents" | "downloads" | "pictures";
+}
+
+interface SaveFilePickerOptions {
+  id?: string;
+  suggestedName?: string;
+  startIn?: FileSystemHandle | "desktop" | "documents" | "downloads" | "pictures";
+  types?: { description?: string; accept: Record<string, string[]> }[];
+}
+
+interface Window {
+  showDirectoryPicker?(options?: DirectoryPickerOptions): Promise<FileSystemDirectoryHandle>;
+  showSaveFilePicker?(options?: SaveFilePickerOptions): Promise<FileSystemFileHandle>;
+}
@@ -0,0 +1,13 @@
+// heic-decode ships without type definitions
+
+declare module "heic-decode" {
+  interface DecodedHeicImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray; // RGBA, ready for ImageData
+  }
+
+  function decode(input: { buffer: ArrayBuffer | Uint8Array }): Promise<DecodedHeicImage>;
+
+  export default decode;
+}
@@ -1,83 +1,285 @@
 // src/utils/filenameUtils.ts
 
-import { ImageFormat } from "../components/UploadDropzone"; // Assuming ImageFormat is exported
+import type { ImageFormat } from "./pipeline";
 
-interface ImageMetadata {
+export interface FilenameMetadata {
     originalName: string; // e.g., "my_image.jpeg"
+    originalWidth?: number; // Upright size of the source; empty in the name when unknown
+    originalHeight?: number;
     outputWidth: number;
     outputHeight: number;
     outputFormat: ImageFormat;
     presetName: string | null;
     timestamp: number; // Unix timestamp
     index: number; // Batch index (0-based)
+    size?: number; // Output size in bytes
+    hash?: string; // Hex digest of the original file, from hashFileContent
+}
+
+type CaseTransform = 'lower' | 'upper' | 'slug';
+type TokenKind = 'text' | 'number' | 'date' | 'size' | 'hash';
+
+interface TokenDefinition {
+    kind: TokenKind;
+    description: string;
+    value: (metadata: FilenameMetadata) => string | number | undefined;
+}
+
+const nameWithoutExt = (name: string) => name.substring(0, name.lastIndexOf('.') > 0 ? name.lastIndexOf('.') : name.length);
+const extensionOf = (name: string) => name.lastIndexOf('.') > 0 ? name.substring(name.lastIndexOf('.') + 1) : '';
+
+const TOKENS: Record<string, TokenDefinition> = {
+    name: { kind: 'text', description: 'Original name without extension', value: m => nameWithoutExt(m.originalName) },
+    ext: { kind: 'text', description: 'Output format', value: m => m.outputFormat },
+    origext: { kind: 'text', description: 'Original extension', value: m => extensionOf(m.originalName) },
+    index: { kind: 'number', description: 'Position in the batch, from 1', value: m => m.index + 1 },
+    width: { kind: 'number', description: 'Output width', value: m => m.outputWidth },
+    height: { kind: 'number', description: 'Output height', value: m => m.outputHeight },
+    origwidth: { kind: 'number', description: 'Original width', value: m => m.originalWidth },
+    origheight: { kind: 'number', description: 'Original height', value: m => m.originalHeight },
+    ratio: {
+        kind: 'text',
+        description: 'Simplified aspect ratio, e.g. 16x9',
+        value: m => m.outputWidth && m.outputHeight
+            ? `${m.outputWidth / gcd(m.outputWidth, m.outputHeight)}x${m.outputHeight / gcd(m.outputWidth, m.outputHeight)}`
+            : '',
+    },
+    preset: { kind: 'text', description: 'Preset name', value: m => m.presetName ?? '' },
+    timestamp: { kind: 'number', description: 'Unix time in milliseconds', value: m => m.timestamp },
+    date: { kind: 'date', description: 'Date and time, YYYY-MM-DD unless a format is given', value: m => m.timestamp },
+    size: { kind: 'size', description: 'Output file size, e.g. 245KB', value: m => m.size },
+    hash: { kind: 'hash', description: 'Start of the original file\'s SHA-256, 8 characters unless a length is given', value: m => m.hash },
+};
+
+/** Token names with a short description each, for help text next to the template input. */
+export const FILENAME_TOKENS: { token: string; description: string }[] =
+    Object.entries(TOKENS).map(([token, { description }]) => ({ token, description }));
+
+// {token}, {token:modifier}, {token|fallback} or {token:modifier|fallback}
+const TOKEN_PATTERN = /\{([a-z]+)(?::([^|{}]*))?(?:\|([^{}]*))?\}/gi;
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const DATE_PART_PATTERN = /YYYY|YY|MM|DD|HH|mm|ss/g;
+const DEFAULT_HASH_LENGTH = 8;
+const MAX_HASH_LENGTH = 64;
+
+const pad = (value: number, length: number) => value.toString().padStart(length, '0');
+
+function formatDate(timestamp: number, format: string): string {
+    const date = new Date(timestamp);
+    const parts: Record<string, string> = {
+        YYYY: date.getFullYear().toString(),
+        YY: pad(date.getFullYear() % 100, 2),
+        MM: pad(date.getMonth() + 1, 2),
+        DD: pad(date.getDate(), 2),
+        HH: pad(date.getHours(), 2),
+        mm: pad(date.getMinutes(), 2),
+        ss: pad(date.getSeconds(), 2),
+    };
+    return format.replace(DATE_PART_PATTERN, part => parts[part]);
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes}B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+function applyCase(value: string, transform: CaseTransform): string {
+    switch (transform) {
+        case 'lower': return value.toLowerCase();
+        case 'upper': return value.toUpperCase();
+        case 'slug':
+            return value
+                .normalize('NFKD')
+                .replace(/[\u0300-\u036f]/g, '') // Accents left over from decomposition
+                .toLowerCase()
+                .replace(/[^a-z0-9]+/g, '-')
+                .replace(/^-+|-+$/g, '');
+    }
+}
+
+/**
+ * Whether a modifier makes sense for a token:
+ * a case transform for text, a run of zeros (the padded width) for numbers,
+ * any format for dates, and a length for the hash.
+ */
+function isValidModifier(kind: TokenKind, modifier: string): boolean {
+    switch (kind) {
+        case 'text': return modifier === 'lower' || modifier === 'upper' || modifier === 'slug';
+        case 'number': return /^0+$/.test(modifier);
+        case 'date': return modifier.length > 0;
+        case 'size': return false;
+        case 'hash': return /^\d+$/.test(modifier) && Number(modifier) >= 1 && Number(modifier) <= MAX_HASH_LENGTH;
+    }
+}
+
+// Null for an unknown token or a modifier it doesn't accept
+function resolveToken(name: string, modifier: string | undefined, metadata: FilenameMetadata): string | null {
+    const definition = TOKENS[name.toLowerCase()];
+    if (!definition || (modifier !== undefined && !isValidModifier(definition.kind, modifier))) return null;
+
+    const value = definition.value(metadata);
+    if (value === undefined || value === '') return '';
+    switch (definition.kind) {
+        case 'text': {
+            // Only slashes written in the template make folders, not ones inside a preset name
+            const text = String(value).replace(/[/\\]/g, '-');
+            return modifier ? applyCase(text, modifier as CaseTransform) : text;
+        }
+        case 'number': return modifier ? pad(Number(value), modifier.length) : String(value);
+        case 'date': return formatDate(Number(value), modifier ?? DEFAULT_DATE_FORMAT);
+        case 'size': return formatSize(Number(value));
+        case 'hash': return String(value).substring(0, modifier ? Number(modifier) : DEFAULT_HASH_LENGTH);
+    }
 }
 
 /**
- * Replaces template variables in a filename string.
+ * Fills in a filename template without sanitizing the result.
+ * Tokens take an optional modifier after a colon ({date:YYYYMMDD}, {index:000}, {name:slug}, {hash:12})
+ * and an optional fallback after a pipe for when the value is empty ({preset|custom}).
+ * Unknown tokens, and tokens with a modifier they don't accept, are left as written.
+ * @param template The filename template string (e.g., "{name}_{width}x{height}")
+ * @param metadata Image metadata to fill variables
+ */
+export function expandFilenameTemplate(template: string, metadata: FilenameMetadata): string {
+    return template.replace(TOKEN_PATTERN, (token, name: string, modifier: string | undefined, fallback: string | undefined) => {
+        const value = resolveToken(name, modifier, metadata);
+        if (value === null) return token;
+        return value === '' && fallback !== undefined ? fallback : value;
+    });
+}
+
+/**
+ * Builds an output filename: replaces template variables, adds the output extension
+ * unless the template already ends with it, and sanitizes the result.
+ * A "/" in the template puts the file in a subfolder (e.g. "{date:YYYY/MM}/{name}"); each part is sanitized on its own.
+ * Every worker names its files through this, so the preview and the outputs agree.
  * @param template The filename template string (e.g., "{name}_{width}x{height}.{ext}")
  * @param metadata Image metadata to fill variables
- * @returns Filename with variables replaced
+ * @returns A safe relative path with extension; not yet unique, see getUniqueFilename
  */
-export function parseFilenameTemplate(template: string, metadata: ImageMetadata): string {
-    let filename = template;
-    const { originalName, outputWidth, outputHeight, outputFormat, presetName, timestamp, index } = metadata;
+export function parseFilenameTemplate(template: string, metadata: FilenameMetadata): string {
+    let filename = expandFilenameTemplate(template, metadata);
+    if (!filename.endsWith(`.${metadata.outputFormat}`)) {
+        filename = `${filename}.${metadata.outputFormat}`;
+    }
+    return filename
+        .split('/')
+        .filter(part => part.trim() !== '' && part !== '.' && part !== '..')
+        .map(sanitizeFilename)
+        .join('/');
+}
 
-    const nameWithoutExt = originalName.substring(0, originalName.lastIndexOf('.') > 0 ? originalName.lastIndexOf('.') : originalName.length);
+/**
+ * Lists the tokens in a template that won't be replaced: unknown names, bad modifiers
+ * and braces that don't form a token at all.
+ * @returns The offending text, in template order
+ */
+export function findInvalidTokens(template: string): string[] {
+    const invalid: string[] = [];
+    let rest = template;
+    for (const match of template.matchAll(TOKEN_PATTERN)) {
+        const [token, name, modifier] = match;
+        const definition = TOKENS[name.toLowerCase()];
+        if (!definition || (modifier !== undefined && !isValidModifier(definition.kind, modifier))) invalid.push(token);
+        rest = rest.replace(token, '');
+    }
+    invalid.push(...(rest.match(/\{[^{}]*\}?|\}/g) ?? []));
+    return invalid;
+}
 
-    const ratio = outputWidth && outputHeight ? `${outputWidth / gcd(outputWidth, outputHeight)}x${outputHeight / gcd(outputWidth, outputHeight)}` : '';
+/**
+ * Whether a template uses a token, so expensive values like the hash are only computed when needed.
+ */
+export function templateUsesToken(template: string, token: string): boolean {
+    return Array.from(template.matchAll(TOKEN_PATTERN)).some(match => match[1].toLowerCase() === token);
+}
+
+/**
+ * Hex SHA-256 of a file's content, for the {hash} token.
+ */
+export async function hashFileContent(data: Blob | ArrayBuffer): Promise<string> {
+    const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Most filesystems cap a name at 255 bytes of UTF-8; the headroom leaves space for a "(n)" suffix
+const MAX_FILENAME_BYTES = 240;
+// Windows refuses these as a name whatever the extension, so "NUL.png" is as unusable as "NUL"
+const WINDOWS_RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])$/i;
+// Only a short alphanumeric ending counts as an extension, so dots inside names stay part of the name
+const EXTENSION_PATTERN = /\.[a-z0-9]{1,10}$/i;
 
-    filename = filename.replace(/{name}/g, nameWithoutExt);
-    filename = filename.replace(/{ext}/g, outputFormat); // Use output format for extension
-    filename = filename.replace(/{index}/g, (index + 1).toString());
-    filename = filename.replace(/{width}/g, outputWidth.toString());
-    filename = filename.replace(/{height}/g, outputHeight.toString());
-    filename = filename.replace(/{ratio}/g, ratio);
-    filename = filename.replace(/{preset}/g, presetName || '');
-    filename = filename.replace(/{timestamp}/g, timestamp.toString()); // Could format this more nicely if needed
+const encoder = new TextEncoder();
+const byteLength = (text: string) => encoder.encode(text).length;
 
-    return sanitizeFilename(filename);
+// Cuts whole code points only, so a multi-byte character or emoji is never split
+function truncateToBytes(text: string, maxBytes: number): string {
+    let result = '';
+    let bytes = 0;
+    for (const char of text) {
+        const size = byteLength(char);
+        if (bytes + size > maxBytes) break;
+        result += char;
+        bytes += size;
+    }
+    return result;
+}
+
+function splitExtension(filename: string): [base: string, ext: string] {
+    const match = filename.match(EXTENSION_PATTERN);
+    return match ? [filename.substring(0, match.index), match[0]] : [filename, ''];
 }
 
 /**
  * Sanitizes a filename to be safe for various file systems.
- * Removes invalid characters and limits length.
+ * Removes invalid and control characters, trailing dots and spaces (which Windows drops),
+ * renames Windows reserved names like CON or NUL.png, and limits the length in bytes
+ * while keeping the extension.
  * @param filename The unsanitized filename
  * @returns A safe filename
  */
 export function sanitizeFilename(filename: string): string {
     // Remove invalid characters
-    let safeFilename = filename.replace(/[/\\?%*:|"<>]/g, '-');
+    let safeFilename = filename.replace(/[/\\?%*:|"<>\x00-\x1f\x7f]/g, '-');
     // Replace multiple hyphens with single
     safeFilename = safeFilename.replace(/--+/g, '-');
-    // Trim leading/trailing hyphens/spaces
-    safeFilename = safeFilename.replace(/^[ -]+|[ -]+$/g, '');
-    // Limit length (e.g., 200 characters)
-    if (safeFilename.length > 200) {
-        safeFilename = safeFilename.substring(0, 200);
-    }
+    // Trim leading hyphens/spaces and trailing hyphens/spaces/dots
+    safeFilename = safeFilename.replace(/^[ -]+|[ .-]+$/g, '');
+
+    const [name, ext] = splitExtension(safeFilename);
+    let base = truncateToBytes(name, MAX_FILENAME_BYTES - byteLength(ext)).replace(/[ .]+$/, '');
     // Ensure it's not empty
-    if (safeFilename === '') {
-        safeFilename = 'untitled';
+    if (base === '') {
+        base = 'untitled';
+    }
+    if (WINDOWS_RESERVED_NAMES.test(base.split('.')[0])) {
+        base = base.replace(/^[^.]*/, stem => `${stem}_`);
     }
-    return safeFilename;
+    return `${base}${ext}`;
 }
 
 /**
  * Generates a unique filename by appending a suffix if a name already exists.
+ * Names are compared case-insensitively, since Windows and macOS treat "A.png" and "a.png"
+ * as the same file, and the suffixed name is kept within the byte limit.
  * @param preferredName The desired filename
- * @param existingNames A Set of already existing filenames
+ * @param existingNames Lower-cased names already taken; the returned name is added to it
  * @returns A unique filename
  */
 export function getUniqueFilename(preferredName: string, existingNames: Set<string>): string {
     let uniqueName = preferredName;
     let counter = 1;
-    const nameWithoutExt = preferredName.substring(0, preferredName.lastIndexOf('.') > 0 ? preferredName.lastIndexOf('.') : preferredName.length);
-    const ext = preferredName.substring(preferredName.lastIndexOf('.') > 0 ? preferredName.lastIndexOf('.') : preferredName.length);
+    const [nameWithoutExt, ext] = splitExtension(preferredName);
 
-    while (existingNames.has(uniqueName)) {
-        uniqueName = `${nameWithoutExt}(${counter})${ext}`;
+    while (existingNames.has(uniqueName.toLowerCase())) {
+        const suffix = `(${counter})${ext}`;
+        uniqueName = `${truncateToBytes(nameWithoutExt, MAX_FILENAME_BYTES - byteLength(suffix))}${suffix}`;
         counter++;
     }
+    existingNames.add(uniqueName.toLowerCase());
     return uniqueName;
 }
 
@@ -0,0 +1,177 @@
+// src/utils/floodFill.ts
+
+// How the background colour is found: the most common edge colour, the average of the four corners,
+// or each edge pixel's own colour (follows gradients and vignetting, but eats into subjects touching the edge)
+export type EdgeSampling = 'dominant' | 'corners' | 'local';
+
+export interface FloodFillSettings {
+    tolerance: number; // RGB distance (0-441) still counted as background
+    feather: number; // px of soft edge on the subject side of the boundary
+    edgeSampling: EdgeSampling;
+}
+
+export const DEFAULT_FLOOD_FILL: FloodFillSettings = {
+    tolerance: 20,
+    feather: 1,
+    edgeSampling: 'dominant',
+};
+
+// Corner patches are this fraction of the shorter side
+const CORNER_SAMPLE_FRACTION = 0.05;
+
+const colorDistance = (data: Uint8ClampedArray, i: number, r: number, g: number, b: number): number =>
+    Math.sqrt((data[i] - r) ** 2 + (data[i + 1] - g) ** 2 + (data[i + 2] - b) ** 2);
+
+/**
+ * Finds the background colour from the image border.
+ * Dominant groups the edge pixels into coarse buckets so noise and JPEG artefacts don't split the vote,
+ * then averages the winning bucket.
+ */
+function sampleEdgeColor(imageData: ImageData, mode: Exclude<EdgeSampling, 'local'>): [number, number, number] {
+    const { width, height, data } = imageData;
+
+    if (mode === 'corners') {
+        const size = Math.max(1, Math.floor(Math.min(width, height) * CORNER_SAMPLE_FRACTION));
+        const sums = [0, 0, 0];
+        let count = 0;
+        for (const [cornerX, cornerY] of [[0, 0], [width - size, 0], [0, height - size], [width - size, height - size]]) {
+            for (let y = cornerY; y < cornerY + size; y++) {
+                for (let x = cornerX; x < cornerX + size; x++) {
+                    const i = (y * width + x) * 4;
+                    sums[0] += data[i];
+                    sums[1] += data[i + 1];
+                    sums[2] += data[i + 2];
+                    count++;
+                }
+            }
+        }
+        return [sums[0] / count, sums[1] / count, sums[2] / count];
+    }
+
+    const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+    let best = { count: 0, r: 255, g: 255, b: 255 };
+    forEachEdgePixel(width, height, pixel => {
+        const i = pixel * 4;
+        const key = (data[i] >> 4) << 8 | (data[i + 1] >> 4) << 4 | data[i + 2] >> 4;
+        const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+        bucket.count++;
+        bucket.r += data[i];
+        bucket.g += data[i + 1];
+        bucket.b += data[i + 2];
+        buckets.set(key, bucket);
+        if (bucket.count > best.count) best = bucket;
+    });
+    return best.count > 0 ? [best.r / best.count, best.g / best.count, best.b / best.count] : [255, 255, 255];
+}
+
+function forEachEdgePixel(width: number, height: number, visit: (pixel: number) => void) {
+    for (let x = 0; x < width; x++) {
+        visit(x);
+        if (height > 1) visit((height - 1) * width + x);
+    }
+    for (let y = 1; y < height - 1; y++) {
+        visit(y * width);
+        if (width > 1) visit(y * width + width - 1);
+    }
+}
+
+/**
+ * Makes the background of an image transparent by flood-filling inwards from its edges.
+ * Only background connected to the border is removed, so enclosed areas of the same colour
+ * inside the subject survive. Pixels that are already transparent always count as background.
+ * Works in place on the image data's alpha channel.
+ * @param imageData The image to cut out
+ * @param settings Tolerance, feather radius and how to sample the background colour
+ */
+export function removeBackgroundByFloodFill(imageData: ImageData, settings: FloodFillSettings = DEFAULT_FLOOD_FILL): void {
+    const { width, height, data } = imageData;
+    const pixelCount = width * height;
+    if (pixelCount === 0) return;
+
+    const reference = settings.edgeSampling === 'local' ? null : sampleEdgeColor(imageData, settings.edgeSampling);
+    const isBackground = new Uint8Array(pixelCount);
+    // Each pixel is visited at most once, so a flat queue the size of the image is enough
+    const queue = new Int32Array(pixelCount);
+    // For local sampling, the edge pixel each filled pixel was reached from
+    const seeds = reference ? null : new Int32Array(pixelCount);
+    let tail = 0;
+
+    const matches = (pixel: number, seed: number): boolean => {
+        const i = pixel * 4;
+        if (data[i + 3] === 0) return true;
+        const [r, g, b] = reference ?? [data[seed * 4], data[seed * 4 + 1], data[seed * 4 + 2]];
+        return colorDistance(data, i, r, g, b) <= settings.tolerance;
+    };
+
+    forEachEdgePixel(width, height, pixel => {
+        if (isBackground[pixel] || !matches(pixel, pixel)) return;
+        isBackground[pixel] = 1;
+        if (seeds) seeds[pixel] = pixel;
+        queue[tail++] = pixel;
+    });
+
+    for (let head = 0; head < tail; head++) {
+        const pixel = queue[head];
+        const seed = seeds ? seeds[pixel] : pixel;
+        const x = pixel % width;
+        const neighbours = [
+            pixel >= width ? pixel - width : -1,
+            pixel < pixelCount - width ? pixel + width : -1,
+            x > 0 ? pixel - 1 : -1,
+            x < width - 1 ? pixel + 1 : -1,
+        ];
+        for (const neighbour of neighbours) {
+            if (neighbour < 0 || isBackground[neighbour] || !matches(neighbour, seed)) continue;
+            isBackground[neighbour] = 1;
+            if (seeds) seeds[neighbour] = seed;
+            queue[tail++] = neighbour;
+        }
+    }
+
+    const distances = settings.feather > 0 ? distanceToBackground(isBackground, width, height) : null;
+    for (let pixel = 0; pixel < pixelCount; pixel++) {
+        const alpha = pixel * 4 + 3;
+        if (isBackground[pixel]) {
+            data[alpha] = 0;
+        } else if (distances && distances[pixel] <= settings.feather) {
+            // Fades in from the boundary, reaching the pixel's own opacity just past the feather radius
+            data[alpha] = Math.floor(data[alpha] * distances[pixel] / (settings.feather + 1));
+        }
+    }
+}
+
+/**
+ * Approximate distance from each pixel to the nearest background pixel, using a two-pass chamfer transform.
+ */
+function distanceToBackground(isBackground: Uint8Array, width: number, height: number): Float32Array {
+    const distances = new Float32Array(width * height);
+    for (let i = 0; i < distances.length; i++) distances[i] = isBackground[i] ? 0 : Infinity;
+
+    const relax = (pixel: number, x: number, y: number, dx: number, dy: number, cost: number) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) return;
+        const candidate = distances[ny * width + nx] + cost;
+        if (candidate < distances[pixel]) distances[pixel] = candidate;
+    };
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const pixel = y * width + x;
+            relax(pixel, x, y, -1, 0, 1);
+            relax(pixel, x, y, 0, -1, 1);
+            relax(pixel, x, y, -1, -1, Math.SQRT2);
+            relax(pixel, x, y, 1, -1, Math.SQRT2);
+        }
+    }
+    for (let y = height - 1; y >= 0; y--) {
+        for (let x = width - 1; x >= 0; x--) {
+            const pixel = y * width + x;
+            relax(pixel, x, y, 1, 0, 1);
+            relax(pixel, x, y, 0, 1, 1);
+            relax(pixel, x, y, 1, 1, Math.SQRT2);
+            relax(pixel, x, y, -1, 1, Math.SQRT2);
+        }
+    }
+    return distances;
+}
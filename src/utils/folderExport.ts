@@ -0,0 +1,176 @@
+// src/utils/folderExport.ts
+
+import { getUniqueFilename } from "./filenameUtils";
+import { getStoredValue, setStoredValue } from "./keyValueStore";
+
+// What to do when a file with the output's name is already in the folder
+export type ExistingFileRule = 'overwrite' | 'skip' | 'rename';
+
+export interface FolderExportFile {
+    path: string; // Relative to the chosen folder; "/" separates subfolders
+    blob: Blob;
+}
+
+export interface FolderExportResult {
+    written: number;
+    skipped: number;
+    renamed: number; // Written under a "(n)" name because the original was taken
+}
+
+const LAST_FOLDER_KEY = "last-output-folder";
+// The picker opens where it was last used for this id
+const PICKER_ID = "processed-images";
+
+/**
+ * Whether the browser can write straight into a folder (Chromium browsers over HTTPS).
+ * Everywhere else the ZIP download is the way out.
+ */
+export const isFolderExportSupported = (): boolean =>
+    typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+
+/**
+ * Whether the browser can save a download-sized file where the user picks (the same browsers as folders).
+ */
+export const isZipFileSaveSupported = (): boolean =>
+    typeof window !== 'undefined' && typeof window.showSaveFilePicker === 'function';
+
+/**
+ * The folder saved into last time, if the browser kept it. Its write permission may have lapsed;
+ * see ensureWritePermission.
+ */
+export async function getLastOutputFolder(): Promise<FileSystemDirectoryHandle | undefined> {
+    try {
+        return await getStoredValue<FileSystemDirectoryHandle>(LAST_FOLDER_KEY);
+    } catch (err) {
+        console.warn("Could not read the last output folder", err);
+        return undefined;
+    }
+}
+
+/**
+ * Asks the user for a folder to save into and remembers the choice.
+ * The picker has to open straight from a click, so the last folder is passed in rather than read here.
+ * @param startIn Where the picker opens, usually the last folder used
+ * @returns The folder, or null if the picker was cancelled
+ */
+export async function pickOutputFolder(startIn?: FileSystemDirectoryHandle): Promise<FileSystemDirectoryHandle | null> {
+    let folder: FileSystemDirectoryHandle;
+    try {
+        folder = await window.showDirectoryPicker!({ id: PICKER_ID, mode: 'readwrite', startIn });
+    } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return null;
+        throw err;
+    }
+    try {
+        await setStoredValue(LAST_FOLDER_KEY, folder);
+    } catch (err) {
+        console.warn("Could not remember the output folder", err);
+    }
+    return folder;
+}
+
+/**
+ * Asks where to save a ZIP and opens the file for writing, so the archive can go to disk as it's generated.
+ * Has to be called straight from a click, like the folder picker; check isZipFileSaveSupported first.
+ * @returns The open file, or null if the picker was cancelled
+ */
+export async function openZipFile(suggestedName: string): Promise<FileSystemWritableFileStream | null> {
+    let handle: FileSystemFileHandle;
+    try {
+        handle = await window.showSaveFilePicker!({
+            id: PICKER_ID,
+            suggestedName,
+            types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+        });
+    } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return null;
+        throw err;
+    }
+    return handle.createWritable();
+}
+
+/**
+ * Checks that the page may still write to a folder, asking again if needed.
+ * Browsers drop the grant for a remembered folder between visits, and asking needs a user gesture,
+ * so call this straight from a click handler.
+ */
+export async function ensureWritePermission(folder: FileSystemDirectoryHandle): Promise<boolean> {
+    const descriptor: FileSystemHandlePermissionDescriptor = { mode: 'readwrite' };
+    if (await folder.queryPermission(descriptor) === 'granted') return true;
+    return await folder.requestPermission(descriptor) === 'granted';
+}
+
+/**
+ * Writes files into a folder, creating subfolders as their paths need.
+ * @param folder Where to save; needs write permission
+ * @param files The outputs, named as the workers named them
+ * @param rule What to do about files that already exist
+ * @param onProgress Called after each file
+ */
+export async function saveFilesToFolder(
+    folder: FileSystemDirectoryHandle,
+    files: FolderExportFile[],
+    rule: ExistingFileRule,
+    onProgress?: (done: number, total: number) => void,
+): Promise<FolderExportResult> {
+    const result: FolderExportResult = { written: 0, skipped: 0, renamed: 0 };
+    const directories = new Map<string, FileSystemDirectoryHandle>([['', folder]]);
+    // Lower-cased names in each directory, listed the first time a file goes there
+    const existingNames = new Map<string, Set<string>>();
+
+    const getDirectory = async (path: string): Promise<FileSystemDirectoryHandle> => {
+        const known = directories.get(path);
+        if (known) return known;
+        const separator = path.lastIndexOf('/');
+        const parent = await getDirectory(separator >= 0 ? path.substring(0, separator) : '');
+        const directory = await parent.getDirectoryHandle(path.substring(separator + 1), { create: true });
+        directories.set(path, directory);
+        return directory;
+    };
+
+    const getExistingNames = async (path: string, directory: FileSystemDirectoryHandle): Promise<Set<string>> => {
+        let names = existingNames.get(path);
+        if (!names) {
+            names = new Set();
+            for await (const name of directory.keys()) names.add(name.toLowerCase());
+            existingNames.set(path, names);
+        }
+        return names;
+    };
+
+    for (const [i, file] of files.entries()) {
+        const separator = file.path.lastIndexOf('/');
+        const directoryPath = separator >= 0 ? file.path.substring(0, separator) : '';
+        const directory = await getDirectory(directoryPath);
+        let name = file.path.substring(separator + 1);
+
+        if (rule !== 'overwrite') {
+            const names = await getExistingNames(directoryPath, directory);
+            if (names.has(name.toLowerCase())) {
+                if (rule === 'skip') {
+                    result.skipped++;
+                    onProgress?.(i + 1, files.length);
+                    continue;
+                }
+                name = getUniqueFilename(name, names);
+                result.renamed++;
+            } else {
+                names.add(name.toLowerCase());
+            }
+        }
+
+        const handle = await directory.getFileHandle(name, { create: true });
+        const writable = await handle.createWritable();
+        try {
+            await writable.write(file.blob);
+            await writable.close();
+        } catch (err) {
+            // Leaves whatever was in the file before rather than a half-written one
+            await writable.abort();
+            throw err;
+        }
+        result.written++;
+        onProgress?.(i + 1, files.length);
+    }
+    return result;
+}
@@ -0,0 +1,44 @@
+// src/utils/formatSupport.ts
+
+import { IMAGE_FORMATS, type ImageFormat } from "./pipeline";
+
+// Formats we can still produce without the browser's help
+export const BUILT_IN_ENCODERS: ImageFormat[] = ['avif'];
+
+export type EncoderSupport = Record<ImageFormat, boolean>;
+
+export function getMimeType(format: ImageFormat): string {
+    return `image/${format}`;
+}
+
+/**
+ * Checks which formats the browser can actually encode from a canvas.
+ * Browsers don't throw for unsupported types; they quietly return a PNG instead,
+ * so the returned blob's type is compared against what was asked for.
+ * @returns Native support per format. PNG is always true.
+ */
+export async function detectEncoderSupport(): Promise<EncoderSupport> {
+    const support = {} as EncoderSupport;
+
+    await Promise.all(IMAGE_FORMATS.map(async (format) => {
+        try {
+            const blob = await encodeTestPixel(getMimeType(format));
+            support[format] = blob?.type === getMimeType(format);
+        } catch {
+            support[format] = false;
+        }
+    }));
+
+    support.png = true;
+    return support;
+}
+
+function encodeTestPixel(type: string): Promise<Blob | null> {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        return new OffscreenCanvas(1, 1).convertToBlob({ type });
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    return new Promise(resolve => canvas.toBlob(resolve, type));
+}
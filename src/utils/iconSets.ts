@@ -0,0 +1,175 @@
+// src/utils/iconSets.ts
+
+import type JSZip from "jszip";
+import type { FitOption } from "./pipeline";
+
+export interface IconSpec {
+    key: string; // Unique across the set; also the variant key sent to the workers
+    folder: string; // Path inside the icon set
+    fileName: string; // Without extension; always PNG
+    size: number;
+    fit?: FitOption; // Defaults to the current fit setting
+    padding?: number; // % of the canvas left empty on each side (adaptive/maskable safe zones)
+    radius?: number;
+    matte?: string; // Opaque fill for icons that can't have transparency
+}
+
+const IOS_FOLDER = "ios/AppIcon.appiconset";
+const ANDROID_FOLDER = "android";
+const WEB_FOLDER = "web";
+
+// iOS rejects icons with an alpha channel, so they're flattened onto white
+const IOS_MATTE = "#FFFFFF";
+// Adaptive icon layers are 108dp with the visible area in the middle 72dp
+const ADAPTIVE_PADDING = (108 - 72) / 2 / 108 * 100;
+// Maskable web icons keep their content inside the central 80%
+const MASKABLE_PADDING = 10;
+
+interface IosIcon {
+    idiom: 'iphone' | 'ipad' | 'ios-marketing';
+    points: number;
+    scale: number;
+}
+
+const IOS_ICONS: IosIcon[] = [
+    { idiom: 'ios-marketing', points: 1024, scale: 1 },
+    { idiom: 'iphone', points: 20, scale: 2 },
+    { idiom: 'iphone', points: 20, scale: 3 },
+    { idiom: 'iphone', points: 29, scale: 2 },
+    { idiom: 'iphone', points: 29, scale: 3 },
+    { idiom: 'iphone', points: 40, scale: 2 },
+    { idiom: 'iphone', points: 40, scale: 3 },
+    { idiom: 'iphone', points: 60, scale: 2 },
+    { idiom: 'iphone', points: 60, scale: 3 },
+    { idiom: 'ipad', points: 20, scale: 1 },
+    { idiom: 'ipad', points: 20, scale: 2 },
+    { idiom: 'ipad', points: 29, scale: 1 },
+    { idiom: 'ipad', points: 29, scale: 2 },
+    { idiom: 'ipad', points: 40, scale: 1 },
+    { idiom: 'ipad', points: 40, scale: 2 },
+    { idiom: 'ipad', points: 76, scale: 1 },
+    { idiom: 'ipad', points: 76, scale: 2 },
+    { idiom: 'ipad', points: 83.5, scale: 2 },
+];
+
+const ANDROID_DENSITIES: { name: string; scale: number }[] = [
+    { name: 'mdpi', scale: 1 },
+    { name: 'hdpi', scale: 1.5 },
+    { name: 'xhdpi', scale: 2 },
+    { name: 'xxhdpi', scale: 3 },
+    { name: 'xxxhdpi', scale: 4 },
+];
+
+const FAVICON_SIZES = [16, 32, 48];
+
+const iosFileName = ({ points, scale }: IosIcon) => `Icon-App-${points}x${points}@${scale}x`;
+
+/**
+ * Every file in the icon set, largest first so the card previews the 1024px App Store icon.
+ * Sizes shared between iPhone and iPad are only listed once; Contents.json points both at the same file.
+ */
+export const ICON_SET_SPECS: IconSpec[] = [
+    ...IOS_ICONS
+        .filter((icon, i) => IOS_ICONS.findIndex(other => iosFileName(other) === iosFileName(icon)) === i)
+        .map(icon => ({
+            key: `ios-${iosFileName(icon)}`,
+            folder: IOS_FOLDER,
+            fileName: iosFileName(icon),
+            size: Math.round(icon.points * icon.scale),
+            matte: IOS_MATTE,
+        })),
+    { key: 'android-playstore', folder: ANDROID_FOLDER, fileName: 'playstore-icon', size: 512 },
+    ...ANDROID_DENSITIES.flatMap(({ name, scale }) => {
+        const folder = `${ANDROID_FOLDER}/mipmap-${name}`;
+        const legacySize = Math.round(48 * scale);
+        const adaptiveSize = Math.round(108 * scale);
+        return [
+            { key: `android-${name}-legacy`, folder, fileName: 'ic_launcher', size: legacySize },
+            { key: `android-${name}-round`, folder, fileName: 'ic_launcher_round', size: legacySize, radius: legacySize / 2 },
+            { key: `android-${name}-foreground`, folder, fileName: 'ic_launcher_foreground', size: adaptiveSize, fit: 'contain' as FitOption, padding: ADAPTIVE_PADDING },
+            { key: `android-${name}-background`, folder, fileName: 'ic_launcher_background', size: adaptiveSize, fit: 'cover' as FitOption },
+        ];
+    }),
+    { key: 'web-512', folder: WEB_FOLDER, fileName: 'icon-512', size: 512 },
+    { key: 'web-maskable-512', folder: WEB_FOLDER, fileName: 'icon-maskable-512', size: 512, padding: MASKABLE_PADDING, matte: '#FFFFFF' },
+    { key: 'web-192', folder: WEB_FOLDER, fileName: 'icon-192', size: 192 },
+    { key: 'web-apple-touch', folder: WEB_FOLDER, fileName: 'apple-touch-icon', size: 180, matte: '#FFFFFF' },
+    ...FAVICON_SIZES.map(size => ({ key: `web-favicon-${size}`, folder: WEB_FOLDER, fileName: `favicon-${size}x${size}`, size })),
+];
+
+const ADAPTIVE_ICON_XML = `<?xml version="1.0" encoding="utf-8"?>
+<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">
+    <background android:drawable="@mipmap/ic_launcher_background"/>
+    <foreground android:drawable="@mipmap/ic_launcher_foreground"/>
+</adaptive-icon>
+`;
+
+/**
+ * Adds the files that describe an icon set (as opposed to the icons themselves) to a ZIP folder:
+ * Xcode's Contents.json, Android's adaptive icon XML, favicon.ico and the web manifest icon entries.
+ * @param folder The ZIP folder holding the set; the icons should already be in it
+ * @param icons The rendered icons by spec key. The favicon is built from the favicon PNGs that succeeded.
+ */
+export async function addIconSetFiles(folder: JSZip, icons: Map<string, Blob>): Promise<void> {
+    const contents = {
+        images: IOS_ICONS.map(icon => ({
+            idiom: icon.idiom,
+            size: `${icon.points}x${icon.points}`,
+            scale: `${icon.scale}x`,
+            filename: `${iosFileName(icon)}.png`,
+        })),
+        info: { version: 1, author: "xcode" },
+    };
+    folder.file(`${IOS_FOLDER}/Contents.json`, JSON.stringify(contents, null, 2));
+
+    for (const suffix of ['', '_round']) {
+        folder.file(`${ANDROID_FOLDER}/mipmap-anydpi-v26/ic_launcher${suffix}.xml`, ADAPTIVE_ICON_XML);
+    }
+
+    const manifest = {
+        icons: [
+            { src: "icon-192.png", sizes: "192x192", type: "image/png" },
+            { src: "icon-512.png", sizes: "512x512", type: "image/png" },
+            { src: "icon-maskable-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+        ],
+    };
+    folder.file(`${WEB_FOLDER}/manifest.json`, JSON.stringify(manifest, null, 2));
+
+    const faviconImages = await Promise.all(FAVICON_SIZES
+        .map(size => ({ size, blob: icons.get(`web-favicon-${size}`) }))
+        .filter((entry): entry is { size: number; blob: Blob } => entry.blob !== undefined)
+        .map(async ({ size, blob }) => ({ size, data: await blob.arrayBuffer() })));
+    if (faviconImages.length > 0) {
+        folder.file(`${WEB_FOLDER}/favicon.ico`, buildIcoFile(faviconImages));
+    }
+}
+
+/**
+ * Packs PNGs into a multi-resolution .ico file. ICO entries can hold PNG data directly,
+ * which every current browser reads, so no BMP conversion is needed.
+ * @param images One PNG per size (256px at most)
+ */
+export function buildIcoFile(images: { size: number; data: ArrayBuffer }[]): Blob {
+    const HEADER_SIZE = 6;
+    const ENTRY_SIZE = 16;
+    const header = new DataView(new ArrayBuffer(HEADER_SIZE + ENTRY_SIZE * images.length));
+    header.setUint16(0, 0, true); // Reserved
+    header.setUint16(2, 1, true); // Type: icon
+    header.setUint16(4, images.length, true);
+
+    let offset = header.byteLength;
+    images.forEach(({ size, data }, i) => {
+        const entry = HEADER_SIZE + ENTRY_SIZE * i;
+        header.setUint8(entry, size >= 256 ? 0 : size); // 0 means 256
+        header.setUint8(entry + 1, size >= 256 ? 0 : size);
+        header.setUint8(entry + 2, 0); // No palette
+        header.setUint8(entry + 3, 0); // Reserved
+        header.setUint16(entry + 4, 1, true); // Colour planes
+        header.setUint16(entry + 6, 32, true); // Bits per pixel
+        header.setUint32(entry + 8, data.byteLength, true);
+        header.setUint32(entry + 12, offset, true);
+        offset += data.byteLength;
+    });
+
+    return new Blob([header.buffer, ...images.map(image => image.data)], { type: 'image/x-icon' });
+}
@@ -0,0 +1,574 @@
+// src/utils/imageMetadata.ts
+
+import type { ImageFormat, MetadataMode } from "./pipeline";
+
+export interface ImageMetadata {
+    orientation?: number; // EXIF orientation (1 = upright, 2-8 = rotated and/or mirrored)
+    artist?: string;
+    copyright?: string;
+    dateTimeOriginal?: string; // EXIF format, "YYYY:MM:DD HH:MM:SS"
+    icc?: Uint8Array;
+}
+
+// --- EXIF tags we read or write ---
+const TAG_ORIENTATION = 0x0112;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const XMP_NAMESPACE = "http://ns.adobe.com/xap/1.0/\0";
+const ICC_HEADER = "ICC_PROFILE\0";
+// A JPEG segment holds at most 65533 payload bytes; ICC chunks also carry the header plus sequence/count bytes
+const ICC_CHUNK_SIZE = 65533 - ICC_HEADER.length - 2;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// ============================================================
+// Reading
+// ============================================================
+
+/**
+ * Reads orientation, author/copyright/capture date and the ICC profile from an image file.
+ * Understands JPEG (APP1/APP2), WebP (EXIF/ICCP/XMP chunks), PNG (eXIf/iCCP chunks),
+ * TIFF (its own IFD0) and HEIC/AVIF (the Exif item).
+ * Unknown formats and malformed metadata just return what could be read.
+ * @param buffer The original file's bytes
+ */
+export async function readImageMetadata(buffer: ArrayBuffer): Promise<ImageMetadata> {
+    const bytes = new Uint8Array(buffer);
+    try {
+        if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpegMetadata(bytes);
+        if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return readWebpMetadata(bytes);
+        if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return await readPngMetadata(bytes);
+        if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return parseTiff(bytes);
+        if (ascii(bytes, 4, 4) === 'ftyp') return withoutOrientation(readHeifMetadata(bytes));
+    } catch (err) {
+        console.warn("Could not read image metadata", err);
+    }
+    return {};
+}
+
+function readJpegMetadata(bytes: Uint8Array): ImageMetadata {
+    const metadata: ImageMetadata = {};
+    const iccChunks: Uint8Array[] = [];
+    let offset = 2;
+
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xda || marker === 0xd9) break; // Start of scan / end of image: no more metadata
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        const payload = bytes.subarray(offset + 4, offset + 2 + length);
+
+        if (marker === 0xe1 && startsWith(payload, EXIF_HEADER)) {
+            Object.assign(metadata, parseTiff(payload.subarray(EXIF_HEADER.length)));
+        } else if (marker === 0xe1 && ascii(payload, 0, XMP_NAMESPACE.length) === XMP_NAMESPACE) {
+            fillFromXmp(metadata, textDecoder.decode(payload.subarray(XMP_NAMESPACE.length)));
+        } else if (marker === 0xe2 && ascii(payload, 0, ICC_HEADER.length) === ICC_HEADER) {
+            const sequence = payload[ICC_HEADER.length];
+            iccChunks[sequence - 1] = payload.subarray(ICC_HEADER.length + 2);
+        }
+        offset += 2 + length;
+    }
+
+    if (iccChunks.length > 0 && iccChunks.every(Boolean)) {
+        metadata.icc = concatBytes(iccChunks);
+    }
+    return metadata;
+}
+
+function readWebpMetadata(bytes: Uint8Array): ImageMetadata {
+    const metadata: ImageMetadata = {};
+    for (const chunk of readRiffChunks(bytes)) {
+        if (chunk.id === 'EXIF') {
+            // Some writers keep the JPEG-style "Exif\0\0" prefix
+            const tiff = startsWith(chunk.data, EXIF_HEADER) ? chunk.data.subarray(EXIF_HEADER.length) : chunk.data;
+            Object.assign(metadata, parseTiff(tiff));
+        } else if (chunk.id === 'XMP ') {
+            fillFromXmp(metadata, textDecoder.decode(chunk.data));
+        } else if (chunk.id === 'ICCP') {
+            metadata.icc = chunk.data.slice();
+        }
+    }
+    return metadata;
+}
+
+async function readPngMetadata(bytes: Uint8Array): Promise<ImageMetadata> {
+    const metadata: ImageMetadata = {};
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 8;
+
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = ascii(bytes, offset + 4, 4);
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+        if (type === 'eXIf') {
+            Object.assign(metadata, parseTiff(data));
+        } else if (type === 'iCCP') {
+            // Profile name, null separator, compression method, then zlib data
+            const nameEnd = data.indexOf(0);
+            metadata.icc = await inflate(data.subarray(nameEnd + 2));
+        } else if (type === 'IDAT' || type === 'IEND') {
+            break;
+        }
+        offset += 12 + length;
+    }
+    return metadata;
+}
+
+/**
+ * Finds the Exif item of a HEIF container (HEIC, AVIF) through the meta box's item info and locations.
+ * Only items stored at file offsets are read, which is where cameras and phones put it.
+ */
+function readHeifMetadata(bytes: Uint8Array): ImageMetadata {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const readUint = (at: number, size: number) =>
+        size === 0 ? 0 : size === 2 ? view.getUint16(at) : size === 4 ? view.getUint32(at) : Number(view.getBigUint64(at));
+
+    // Meta, iinf, infe and iloc are all full boxes: a version byte and three flag bytes before their fields
+    const meta = findBox(bytes, 0, bytes.length, 'meta');
+    if (!meta) return {};
+    const iinf = findBox(bytes, meta.start + 4, meta.end, 'iinf');
+    const iloc = findBox(bytes, meta.start + 4, meta.end, 'iloc');
+    if (!iinf || !iloc) return {};
+
+    let exifItemId: number | undefined;
+    const iinfVersion = bytes[iinf.start];
+    let offset = iinf.start + 4 + (iinfVersion === 0 ? 2 : 4);
+    while (exifItemId === undefined) {
+        const infe = findBox(bytes, offset, iinf.end, 'infe');
+        if (!infe) return {};
+        const version = bytes[infe.start];
+        if (version >= 2) {
+            const idSize = version === 2 ? 2 : 4;
+            if (ascii(bytes, infe.start + 4 + idSize + 2, 4) === 'Exif') exifItemId = readUint(infe.start + 4, idSize);
+        }
+        offset = infe.end;
+    }
+
+    const ilocVersion = bytes[iloc.start];
+    const offsetSize = bytes[iloc.start + 4] >> 4;
+    const lengthSize = bytes[iloc.start + 4] & 0x0f;
+    const baseOffsetSize = bytes[iloc.start + 5] >> 4;
+    const indexSize = ilocVersion > 0 ? bytes[iloc.start + 5] & 0x0f : 0;
+    const idSize = ilocVersion < 2 ? 2 : 4;
+    const itemCount = readUint(iloc.start + 6, idSize);
+    offset = iloc.start + 6 + idSize;
+    for (let i = 0; i < itemCount; i++) {
+        const itemId = readUint(offset, idSize);
+        offset += idSize;
+        const constructionMethod = ilocVersion > 0 ? view.getUint16(offset) & 0x0f : 0;
+        if (ilocVersion > 0) offset += 2;
+        offset += 2; // Data reference index
+        const baseOffset = readUint(offset, baseOffsetSize);
+        offset += baseOffsetSize;
+        const extentCount = view.getUint16(offset);
+        offset += 2;
+        const extents: Uint8Array[] = [];
+        for (let e = 0; e < extentCount; e++) {
+            offset += indexSize;
+            const extentOffset = readUint(offset, offsetSize);
+            const extentLength = readUint(offset + offsetSize, lengthSize);
+            offset += offsetSize + lengthSize;
+            const start = baseOffset + extentOffset;
+            extents.push(bytes.subarray(start, extentLength ? start + extentLength : bytes.length));
+        }
+        if (itemId !== exifItemId) continue;
+        if (constructionMethod !== 0) return {};
+
+        // The item starts with the offset of the TIFF header from the end of that field
+        const item = concatBytes(extents);
+        if (item.length < 4) return {};
+        const tiffStart = 4 + new DataView(item.buffer, item.byteOffset, item.byteLength).getUint32(0);
+        return parseTiff(item.subarray(tiffStart));
+    }
+    return {};
+}
+
+/**
+ * Finds the first box of a type among the boxes between start and end (not searching inside them).
+ * @returns Where the box's payload starts and where the box ends
+ */
+function findBox(bytes: Uint8Array, start: number, end: number, type: string): { start: number; end: number } | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        let headerSize = 8;
+        if (size === 1) {
+            size = Number(view.getBigUint64(offset + 8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - offset; // Runs to the end of its parent
+        }
+        if (size < headerSize) return null;
+        if (ascii(bytes, offset + 4, 4) === type) return { start: offset + headerSize, end: Math.min(end, offset + size) };
+        offset += size;
+    }
+    return null;
+}
+
+/**
+ * Drops the EXIF orientation of HEIF files: heic-decode already applies the container's irot/imir
+ * transforms, so the tag mustn't be reported or applied a second time.
+ */
+function withoutOrientation(metadata: ImageMetadata): ImageMetadata {
+    delete metadata.orientation;
+    return metadata;
+}
+
+/**
+ * Parses the TIFF structure inside an EXIF block, reading IFD0 and the Exif sub-IFD.
+ */
+function parseTiff(tiff: Uint8Array): ImageMetadata {
+    const metadata: ImageMetadata = {};
+    if (tiff.length < 8) return metadata;
+
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const littleEndian = ascii(tiff, 0, 2) === 'II';
+    const u16 = (at: number) => view.getUint16(at, littleEndian);
+    const u32 = (at: number) => view.getUint32(at, littleEndian);
+
+    const readIfd = (ifdOffset: number, onEntry: (tag: number, type: number, count: number, valueOffset: number) => void) => {
+        if (ifdOffset + 2 > tiff.length) return;
+        const count = u16(ifdOffset);
+        for (let i = 0; i < count; i++) {
+            const entry = ifdOffset + 2 + i * 12;
+            if (entry + 12 > tiff.length) return;
+            onEntry(u16(entry), u16(entry + 2), u32(entry + 4), entry + 8);
+        }
+    };
+
+    const readAscii = (count: number, valueOffset: number) => {
+        const start = count > 4 ? u32(valueOffset) : valueOffset;
+        return textDecoder.decode(tiff.subarray(start, start + count)).replace(/\0+$/, '').trim() || undefined;
+    };
+
+    let exifIfdOffset = 0;
+    readIfd(u32(4), (tag, type, count, valueOffset) => {
+        if (tag === TAG_ORIENTATION && type === TYPE_SHORT) metadata.orientation = u16(valueOffset);
+        else if (tag === TAG_ARTIST && type === TYPE_ASCII) metadata.artist = readAscii(count, valueOffset);
+        else if (tag === TAG_COPYRIGHT && type === TYPE_ASCII) metadata.copyright = readAscii(count, valueOffset);
+        else if (tag === TAG_EXIF_IFD && type === TYPE_LONG) exifIfdOffset = u32(valueOffset);
+    });
+
+    if (exifIfdOffset) {
+        readIfd(exifIfdOffset, (tag, type, count, valueOffset) => {
+            if (tag === TAG_DATE_TIME_ORIGINAL && type === TYPE_ASCII) metadata.dateTimeOriginal = readAscii(count, valueOffset);
+        });
+    }
+    return metadata;
+}
+
+/**
+ * Fills in any fields EXIF didn't have from an XMP packet.
+ */
+function fillFromXmp(metadata: ImageMetadata, xmp: string) {
+    const firstListItem = (element: string) => {
+        const match = xmp.match(new RegExp(`<${element}>[\\s\\S]*?<rdf:li[^>]*>([\\s\\S]*?)</rdf:li>`));
+        return match ? unescapeXml(match[1].trim()) : undefined;
+    };
+    metadata.artist ??= firstListItem('dc:creator');
+    metadata.copyright ??= firstListItem('dc:rights');
+
+    if (!metadata.dateTimeOriginal) {
+        const date = xmp.match(/<(?:exif:DateTimeOriginal|xmp:CreateDate)>([^<]+)</)?.[1]
+            ?? xmp.match(/(?:exif:DateTimeOriginal|xmp:CreateDate)="([^"]+)"/)?.[1];
+        const parts = date?.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?/);
+        if (parts) {
+            const [, y, mo, d, h = '00', mi = '00', s = '00'] = parts;
+            metadata.dateTimeOriginal = `${y}:${mo}:${d} ${h}:${mi}:${s}`;
+        }
+    }
+}
+
+// ============================================================
+// Writing
+// ============================================================
+
+/**
+ * Writes the metadata kept by the chosen mode into an encoded JPEG or WebP.
+ * Canvas encoders never write metadata, so 'strip' and other formats return the blob untouched.
+ * Orientation is never written back: the pixels have already been rotated upright.
+ * @param blob The encoded output image
+ * @param format The output format
+ * @param metadata Metadata read from the original file
+ * @param mode Which fields to keep
+ * @param width Output width, needed for the WebP extended header
+ * @param height Output height, needed for the WebP extended header
+ */
+export async function writeImageMetadata(
+    blob: Blob,
+    format: ImageFormat,
+    metadata: ImageMetadata,
+    mode: MetadataMode,
+    width: number,
+    height: number
+): Promise<Blob> {
+    const blocks = buildMetadataBlocks(format, metadata, mode);
+    if (!blocks) return blob;
+    const { exif, xmp, icc } = blocks;
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const output = format === 'jpeg'
+        ? insertJpegSegments(bytes, exif, xmp, icc)
+        : insertWebpChunks(bytes, exif, xmp, icc, width, height);
+    return new Blob([output as BlobPart], { type: blob.type });
+}
+
+/**
+ * How many bytes writeImageMetadata will add to an output, so a max file size can leave room for them.
+ * For WebP this counts a new VP8X header too, which the encoder may already have written.
+ */
+export function getMetadataSize(format: ImageFormat, metadata: ImageMetadata, mode: MetadataMode): number {
+    const blocks = buildMetadataBlocks(format, metadata, mode);
+    if (!blocks) return 0;
+    const { exif, xmp, icc } = blocks;
+    if (format === 'jpeg') {
+        const iccChunks = icc ? Math.ceil(icc.length / ICC_CHUNK_SIZE) : 0;
+        return (exif ? 4 + EXIF_HEADER.length + exif.length : 0)
+            + (xmp ? 4 + XMP_NAMESPACE.length + xmp.length : 0)
+            + (icc ? iccChunks * (4 + ICC_HEADER.length + 2) + icc.length : 0);
+    }
+    const chunkSize = (data: Uint8Array | null) => data ? 8 + data.length + (data.length % 2) : 0;
+    return 8 + 10 + chunkSize(exif) + chunkSize(xmp) + chunkSize(icc);
+}
+
+/**
+ * The EXIF, XMP and ICC blocks the mode keeps for an output format.
+ * @returns The blocks, or null if there's nothing to write
+ */
+function buildMetadataBlocks(format: ImageFormat, metadata: ImageMetadata, mode: MetadataMode) {
+    if (mode === 'strip' || (format !== 'jpeg' && format !== 'webp')) return null;
+    const exif = mode === 'basic' ? buildExif(metadata) : null;
+    const xmp = mode === 'basic' ? buildXmp(metadata) : null;
+    const icc = mode === 'icc' ? metadata.icc ?? null : null;
+    return exif || xmp || icc ? { exif, xmp, icc } : null;
+}
+
+/**
+ * Builds a big-endian TIFF block with Artist and Copyright in IFD0 and DateTimeOriginal in the Exif IFD.
+ * @returns The TIFF bytes, or null if there's nothing to write
+ */
+function buildExif(metadata: ImageMetadata): Uint8Array | null {
+    const ifd0: { tag: number; value: string }[] = [];
+    if (metadata.artist) ifd0.push({ tag: TAG_ARTIST, value: metadata.artist });
+    if (metadata.copyright) ifd0.push({ tag: TAG_COPYRIGHT, value: metadata.copyright });
+    const hasDate = Boolean(metadata.dateTimeOriginal);
+    if (ifd0.length === 0 && !hasDate) return null;
+
+    const strings = [...ifd0.map(entry => entry.value), ...(hasDate ? [metadata.dateTimeOriginal!] : [])]
+        .map(value => textEncoder.encode(`${value}\0`));
+
+    const ifd0Count = ifd0.length + (hasDate ? 1 : 0);
+    const ifd0Size = 2 + ifd0Count * 12 + 4;
+    const exifIfdSize = hasDate ? 2 + 12 + 4 : 0;
+    let dataOffset = 8 + ifd0Size + exifIfdSize;
+    const totalSize = dataOffset + strings.reduce((sum, s) => sum + (s.length > 4 ? s.length : 0), 0);
+
+    const tiff = new Uint8Array(totalSize);
+    const view = new DataView(tiff.buffer);
+    tiff.set([0x4d, 0x4d, 0x00, 0x2a]); // "MM", 42
+    view.setUint32(4, 8);
+
+    let stringIndex = 0;
+    const writeAsciiEntry = (entryOffset: number, tag: number) => {
+        const value = strings[stringIndex++];
+        view.setUint16(entryOffset, tag);
+        view.setUint16(entryOffset + 2, TYPE_ASCII);
+        view.setUint32(entryOffset + 4, value.length);
+        if (value.length > 4) {
+            view.setUint32(entryOffset + 8, dataOffset);
+            tiff.set(value, dataOffset);
+            dataOffset += value.length;
+        } else {
+            tiff.set(value, entryOffset + 8);
+        }
+    };
+
+    // IFD0 (entries must be in ascending tag order; the Exif pointer has the highest tag)
+    view.setUint16(8, ifd0Count);
+    ifd0.forEach((entry, i) => writeAsciiEntry(10 + i * 12, entry.tag));
+    if (hasDate) {
+        const pointerEntry = 10 + ifd0.length * 12;
+        view.setUint16(pointerEntry, TAG_EXIF_IFD);
+        view.setUint16(pointerEntry + 2, TYPE_LONG);
+        view.setUint32(pointerEntry + 4, 1);
+        view.setUint32(pointerEntry + 8, 8 + ifd0Size);
+    }
+    view.setUint32(8 + ifd0Size - 4, 0); // No next IFD
+
+    if (hasDate) {
+        const exifIfd = 8 + ifd0Size;
+        view.setUint16(exifIfd, 1);
+        writeAsciiEntry(exifIfd + 2, TAG_DATE_TIME_ORIGINAL);
+        view.setUint32(exifIfd + 14, 0);
+    }
+    return tiff;
+}
+
+function buildXmp(metadata: ImageMetadata): Uint8Array | null {
+    const fields: string[] = [];
+    if (metadata.artist) {
+        fields.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.artist)}</rdf:li></rdf:Seq></dc:creator>`);
+    }
+    if (metadata.copyright) {
+        fields.push(`<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.copyright)}</rdf:li></rdf:Alt></dc:rights>`);
+    }
+    const date = metadata.dateTimeOriginal?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    if (date) {
+        const [, y, mo, d, h, mi, s] = date;
+        fields.push(`<xmp:CreateDate>${y}-${mo}-${d}T${h}:${mi}:${s}</xmp:CreateDate>`);
+    }
+    if (fields.length === 0) return null;
+
+    return textEncoder.encode(
+        '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+        '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+        '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/">' +
+        fields.join('') +
+        '</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="w"?>'
+    );
+}
+
+function insertJpegSegments(bytes: Uint8Array, exif: Uint8Array | null, xmp: Uint8Array | null, icc: Uint8Array | null): Uint8Array {
+    const segments: Uint8Array[] = [];
+    if (exif) segments.push(jpegSegment(0xe1, concatBytes([new Uint8Array(EXIF_HEADER), exif])));
+    if (xmp) segments.push(jpegSegment(0xe1, concatBytes([textEncoder.encode(XMP_NAMESPACE), xmp])));
+    if (icc) {
+        const chunkCount = Math.ceil(icc.length / ICC_CHUNK_SIZE);
+        for (let i = 0; i < chunkCount; i++) {
+            const chunk = icc.subarray(i * ICC_CHUNK_SIZE, (i + 1) * ICC_CHUNK_SIZE);
+            segments.push(jpegSegment(0xe2, concatBytes([textEncoder.encode(ICC_HEADER), new Uint8Array([i + 1, chunkCount]), chunk])));
+        }
+    }
+
+    // Keep a JFIF APP0 segment first if the encoder wrote one
+    let insertAt = 2;
+    if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+        insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    }
+    return concatBytes([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+}
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+    const segment = new Uint8Array(4 + payload.length);
+    segment[0] = 0xff;
+    segment[1] = marker;
+    segment[2] = (payload.length + 2) >> 8;
+    segment[3] = (payload.length + 2) & 0xff;
+    segment.set(payload, 4);
+    return segment;
+}
+
+/**
+ * Rebuilds a WebP file in the extended (VP8X) layout so it can carry ICC, EXIF and XMP chunks.
+ */
+function insertWebpChunks(
+    bytes: Uint8Array,
+    exif: Uint8Array | null,
+    xmp: Uint8Array | null,
+    icc: Uint8Array | null,
+    width: number,
+    height: number
+): Uint8Array {
+    const chunks = readRiffChunks(bytes);
+    const existingHeader = chunks.find(chunk => chunk.id === 'VP8X');
+    const imageChunks = chunks.filter(chunk => !['VP8X', 'ICCP', 'EXIF', 'XMP '].includes(chunk.id));
+
+    let flags = existingHeader ? existingHeader.data[0] : 0;
+    const hasAlpha = imageChunks.some(chunk => chunk.id === 'ALPH')
+        || imageChunks.some(chunk => chunk.id === 'VP8L' && chunk.data.length >= 5 && ((chunk.data[4] >> 4) & 1) === 1);
+    if (hasAlpha) flags |= 0x10;
+    if (icc) flags |= 0x20;
+    if (exif) flags |= 0x08;
+    if (xmp) flags |= 0x04;
+
+    const header = new Uint8Array(10);
+    header[0] = flags;
+    writeUint24LE(header, 4, width - 1);
+    writeUint24LE(header, 7, height - 1);
+
+    const body = concatBytes([
+        textEncoder.encode('WEBP'),
+        riffChunk('VP8X', header),
+        ...(icc ? [riffChunk('ICCP', icc)] : []),
+        ...imageChunks.map(chunk => riffChunk(chunk.id, chunk.data)),
+        ...(exif ? [riffChunk('EXIF', exif)] : []),
+        ...(xmp ? [riffChunk('XMP ', xmp)] : []),
+    ]);
+
+    const riffHeader = new Uint8Array(8);
+    riffHeader.set(textEncoder.encode('RIFF'));
+    new DataView(riffHeader.buffer).setUint32(4, body.length, true);
+    return concatBytes([riffHeader, body]);
+}
+
+// ============================================================
+// Byte helpers
+// ============================================================
+
+function readRiffChunks(bytes: Uint8Array): { id: string; data: Uint8Array }[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: { id: string; data: Uint8Array }[] = [];
+    let offset = 12; // After "RIFF", size, "WEBP"
+    while (offset + 8 <= bytes.length) {
+        const id = ascii(bytes, offset, 4);
+        const size = view.getUint32(offset + 4, true);
+        chunks.push({ id, data: bytes.subarray(offset + 8, offset + 8 + size) });
+        offset += 8 + size + (size % 2); // Chunks are padded to an even length
+    }
+    return chunks;
+}
+
+function riffChunk(id: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+    chunk.set(textEncoder.encode(id));
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+}
+
+function writeUint24LE(target: Uint8Array, offset: number, value: number) {
+    target[offset] = value & 0xff;
+    target[offset + 1] = (value >> 8) & 0xff;
+    target[offset + 2] = (value >> 16) & 0xff;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        output.set(part, offset);
+        offset += part.length;
+    });
+    return output;
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+    return prefix.every((byte, i) => bytes[i] === byte);
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+    return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+}
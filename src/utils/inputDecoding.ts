@@ -0,0 +1,193 @@
+// src/utils/inputDecoding.ts
+
+// Input formats the pipeline accepts. The first group decodes natively with createImageBitmap;
+// heic and tiff go through bundled decoders; svg is rasterised on the main thread (workers can't render it).
+export type InputKind = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp' | 'avif' | 'heic' | 'tiff' | 'svg';
+
+export const NATIVE_INPUT_KINDS: InputKind[] = ['jpeg', 'png', 'webp', 'gif', 'bmp', 'avif'];
+
+// Extensions/MIME types passed to the dropzone; some systems report HEIC and TIFF with an empty type
+export const ACCEPTED_INPUT_TYPES: Record<string, string[]> = {
+    "image/*": [],
+    "image/heic": ['.heic'],
+    "image/heif": ['.heif'],
+    "image/tiff": ['.tif', '.tiff'],
+    "image/svg+xml": ['.svg'],
+};
+
+export type InputInspection =
+    | { ok: true; kind: InputKind; pageCount: number }
+    | { ok: false; reason: string };
+
+/**
+ * Identifies an input file by its leading bytes rather than its extension or MIME type.
+ * @returns The detected kind, or null if it isn't a format we can decode
+ */
+export async function detectInputKind(file: Blob): Promise<InputKind | null> {
+    const header = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+    const ascii = (start: number, length: number) => String.fromCharCode(...header.subarray(start, start + length));
+
+    if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) return 'jpeg';
+    if (header[0] === 0x89 && ascii(1, 3) === 'PNG') return 'png';
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') return 'webp';
+    if (ascii(0, 4) === 'GIF8') return 'gif';
+    if (ascii(0, 2) === 'BM') return 'bmp';
+    if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'tiff';
+    if (ascii(4, 4) === 'ftyp') {
+        // Major brand, then the compatible brands after the minor version. AVIF files often carry the
+        // generic HEIF brands (mif1/msf1) too, so only the codec-specific brands decide
+        const boxSize = Math.min((header[0] << 24 | header[1] << 16 | header[2] << 8 | header[3]) >>> 0, header.length);
+        const brands = [ascii(8, 4)];
+        for (let offset = 16; offset + 4 <= boxSize; offset += 4) brands.push(ascii(offset, 4));
+        if (brands.some(brand => brand === 'avif' || brand === 'avis')) return 'avif';
+        if (brands.some(brand => ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'].includes(brand))) return 'heic';
+    }
+
+    // SVG is text; allow an XML declaration, comments or a doctype before the root element
+    const text = new TextDecoder().decode(header).replace(/^\uFEFF/, '').trimStart();
+    if (text.startsWith('<') && /<svg[\s>]/i.test(text)) return 'svg';
+
+    return null;
+}
+
+/**
+ * Checks a dropped file before it's added to the batch, so unsupported files are
+ * turned away with a reason instead of failing inside a worker.
+ * Multi-page TIFFs report their page count so each page can become its own image.
+ */
+export async function inspectInputFile(file: File): Promise<InputInspection> {
+    try {
+        const kind = await detectInputKind(file);
+        if (!kind) {
+            const label = file.type || file.name.split('.').pop()?.toUpperCase() || 'this file type';
+            return { ok: false, reason: `${label} isn't a supported image format` };
+        }
+
+        if (kind === 'tiff') {
+            const UTIF = await import('utif');
+            const pages = getTiffPages(UTIF.decode(await file.arrayBuffer()));
+            if (pages.length === 0) return { ok: false, reason: "TIFF file doesn't contain any images" };
+            return { ok: true, kind, pageCount: pages.length };
+        }
+
+        return { ok: true, kind, pageCount: 1 };
+    } catch (err) {
+        console.error(`Failed to inspect ${file.name}`, err);
+        return { ok: false, reason: "File couldn't be read" };
+    }
+}
+
+/**
+ * Turns an input that createImageBitmap can't read into a PNG blob it can.
+ * Native formats are returned unchanged. Must not be called with SVG in a worker; see rasterizeSvg.
+ * @param file The original file
+ * @param page Which page of a multi-page TIFF to decode (0-based)
+ */
+export async function decodeInput(file: Blob, page = 0): Promise<Blob> {
+    const kind = await detectInputKind(file);
+
+    if (kind === 'heic') {
+        // Loaded on demand: the HEIF decoder is large
+        const { default: decodeHeic } = await import('heic-decode');
+        const { width, height, data } = await decodeHeic({ buffer: new Uint8Array(await file.arrayBuffer()) });
+        return rgbaToPng(new Uint8ClampedArray(data), width, height);
+    }
+
+    if (kind === 'tiff') {
+        const UTIF = await import('utif');
+        const buffer = await file.arrayBuffer();
+        const pages = getTiffPages(UTIF.decode(buffer));
+        const ifd = pages[page];
+        if (!ifd) throw new Error(`TIFF page ${page + 1} not found`);
+        UTIF.decodeImage(buffer, ifd);
+        // The PNG carries no orientation, so the page's own tag has to be applied to the pixels here
+        const orientation = (ifd.t274 as number[] | undefined)?.[0] ?? 1;
+        const upright = orientRgba(new Uint8ClampedArray(UTIF.toRGBA8(ifd)), ifd.width, ifd.height, orientation);
+        return rgbaToPng(upright.data, upright.width, upright.height);
+    }
+
+    return file;
+}
+
+/**
+ * Rasterises an SVG to a PNG large enough to cover the target size, so vector art stays sharp
+ * instead of being scaled up from its (often tiny) intrinsic size. Main thread only.
+ * @param file The SVG file
+ * @param targetWidth Output width the image will be fitted into
+ * @param targetHeight Output height the image will be fitted into
+ */
+export async function rasterizeSvg(file: Blob, targetWidth: number, targetHeight: number): Promise<Blob> {
+    const url = URL.createObjectURL(new Blob([file], { type: 'image/svg+xml' }));
+    try {
+        const img = new Image();
+        img.src = url;
+        await img.decode();
+
+        // SVGs without width/height report 0 (or the 300x150 default); fall back to the target size
+        const intrinsicWidth = img.naturalWidth || targetWidth;
+        const intrinsicHeight = img.naturalHeight || targetHeight;
+        const scale = Math.max(targetWidth / intrinsicWidth, targetHeight / intrinsicHeight);
+        const width = Math.max(1, Math.round(intrinsicWidth * scale));
+        const height = Math.max(1, Math.round(intrinsicHeight * scale));
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get a 2D context to rasterise the SVG');
+        ctx.drawImage(img, 0, 0, width, height);
+
+        return await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not rasterise the SVG')), 'image/png');
+        });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+// Full-resolution pages only; skips thumbnails and masks (NewSubfileType bit 0 / bit 2)
+function getTiffPages<T extends { [key: string]: unknown }>(ifds: T[]): T[] {
+    return ifds.filter(ifd => {
+        const subfileType = (ifd.t254 as number[] | undefined)?.[0] ?? 0;
+        return ifd.t256 !== undefined && (subfileType & 0b101) === 0;
+    });
+}
+
+/**
+ * Applies an EXIF/TIFF orientation (2-8) to raw RGBA pixels, returning upright pixels.
+ * Orientations 5-8 swap width and height.
+ */
+function orientRgba(data: Uint8ClampedArray<ArrayBuffer>, width: number, height: number, orientation: number) {
+    if (orientation < 2 || orientation > 8) return { data, width, height };
+    const swapsAxes = orientation >= 5;
+    const outWidth = swapsAxes ? height : width;
+    const outHeight = swapsAxes ? width : height;
+    const source = new Uint32Array(data.buffer, data.byteOffset, width * height);
+    const output = new Uint32Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let outX = x;
+            let outY = y;
+            switch (orientation) {
+                case 2: outX = width - 1 - x; break; // Mirrored horizontally
+                case 3: outX = width - 1 - x; outY = height - 1 - y; break; // Rotated 180°
+                case 4: outY = height - 1 - y; break; // Mirrored vertically
+                case 5: outX = y; outY = x; break; // Transposed
+                case 6: outX = height - 1 - y; outY = x; break; // Rotated 90° clockwise
+                case 7: outX = height - 1 - y; outY = width - 1 - x; break; // Transversed
+                case 8: outX = y; outY = width - 1 - x; break; // Rotated 90° anticlockwise
+            }
+            output[outY * outWidth + outX] = source[y * width + x];
+        }
+    }
+    return { data: new Uint8ClampedArray(output.buffer), width: outWidth, height: outHeight };
+}
+
+function rgbaToPng(data: Uint8ClampedArray<ArrayBuffer>, width: number, height: number): Promise<Blob> {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get a 2D context for the decoded image');
+    ctx.putImageData(new ImageData(data, width, height), 0, 0);
+    return canvas.convertToBlob({ type: 'image/png' });
+}
@@ -0,0 +1,74 @@
+// src/utils/keyValueStore.ts
+
+const DB_NAME = "batch-image-tool";
+const DB_VERSION = 2;
+const SETTINGS_STORE = "settings";
+export const SESSION_STORE = "session"; // The saved session's settings and image order
+export const SESSION_IMAGES_STORE = "session-images"; // One record per image, keyed by its id
+
+/**
+ * Opens the app's IndexedDB database, creating its stores on first use.
+ * Used for values localStorage can't hold, like file system handles and image blobs.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(SETTINGS_STORE)) db.createObjectStore(SETTINGS_STORE);
+            if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+            if (!db.objectStoreNames.contains(SESSION_IMAGES_STORE)) db.createObjectStore(SESSION_IMAGES_STORE, { keyPath: "id" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Runs work in a single transaction and resolves once it has committed, so several writes succeed or fail together.
+ * @param work Queues requests on the transaction; it must not await anything else, or the transaction closes
+ */
+export async function runTransaction(
+    storeNames: string | string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => void,
+): Promise<void> {
+    const db = await openDatabase();
+    try {
+        await new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction(storeNames, mode);
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error ?? new Error("The transaction was aborted"));
+            work(transaction);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Runs one request against a store and resolves with its result once the transaction has finished.
+ */
+export async function runStoreRequest<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+    let request: IDBRequest<T> | undefined;
+    await runTransaction(storeName, mode, transaction => {
+        request = makeRequest(transaction.objectStore(storeName));
+    });
+    return request!.result;
+}
+
+/**
+ * Reads a stored setting. Anything structured-cloneable can be stored, including file system handles.
+ */
+export async function getStoredValue<T>(key: string): Promise<T | undefined> {
+    return await runStoreRequest(SETTINGS_STORE, "readonly", store => store.get(key)) as T | undefined;
+}
+
+export async function setStoredValue(key: string, value: unknown): Promise<void> {
+    await runStoreRequest(SETTINGS_STORE, "readwrite", store => store.put(value, key));
+}
@@ -0,0 +1,531 @@
+// src/utils/pipeline.ts
+
+import type { EdgeSampling, FloodFillSettings } from "./floodFill";
+
+// The option schema and worker message protocol shared by the UI and both image workers.
+// Anything crossing postMessage is described (and checked) here, so the two sides can't drift apart.
+
+// Bump whenever a message or option changes shape; both sides reject messages from another version
+export const PROTOCOL_VERSION = 1;
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+export type FitOption = 'contain' | 'cover' | 'crop' | 'smart-cover'; // smart-cover frames the subject found by the segmentation model
+export type PipelineStage = 'decode' | 'background-removal' | 'draw' | 'encode';
+export type MetadataMode = 'strip' | 'basic' | 'icc'; // basic = copyright, author and capture date
+export type WatermarkPosition =
+    | 'top-left' | 'top' | 'top-right'
+    | 'left' | 'center' | 'right'
+    | 'bottom-left' | 'bottom' | 'bottom-right'
+    | 'tiled';
+export type ImglyModel = 'isnet' | 'isnet_fp16' | 'isnet_quint8';
+export type RemovalOutput = 'foreground' | 'mask' | 'both'; // both = every output also gets a mask twin
+
+export const IMAGE_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp', 'avif'];
+export const FIT_OPTIONS: FitOption[] = ['contain', 'cover', 'crop', 'smart-cover'];
+export const METADATA_MODES: MetadataMode[] = ['strip', 'basic', 'icc'];
+export const WATERMARK_TYPES: WatermarkSettings['type'][] = ['none', 'text', 'image'];
+export const WATERMARK_POSITIONS: WatermarkPosition[] = [
+    'top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right', 'tiled',
+];
+export const BACKGROUND_TYPES: BackgroundSettings['type'][] = ['transparent', 'color', 'linear-gradient', 'radial-gradient', 'image', 'blur'];
+export const IMGLY_MODELS: ImglyModel[] = ['isnet', 'isnet_fp16', 'isnet_quint8'];
+const REMOVAL_ENGINES: RemovalSettings['engine'][] = ['imgly', 'flood-fill'];
+const REMOVAL_OUTPUTS: RemovalOutput[] = ['foreground', 'mask', 'both'];
+const EDGE_SAMPLING_MODES: EdgeSampling[] = ['dominant', 'corners', 'local'];
+
+// --- Options ---
+
+export interface ResizeOptions {
+    width: number;
+    height: number;
+    fit: FitOption;
+}
+
+// Both normalised to 0-1 of the upright original image, so they hold at any resolution
+export interface FocalPoint {
+    x: number;
+    y: number;
+}
+
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Settings a single image can override; anything left unset follows the batch settings
+export interface ImageOverrides {
+    width?: number;
+    height?: number;
+    fit?: FitOption;
+    borderRadius?: number;
+    removeBackground?: boolean;
+    format?: ImageFormat;
+    quality?: number;
+}
+
+export interface WatermarkSettings {
+    type: 'none' | 'text' | 'image';
+    text: string;
+    imageDataUrl: string | null; // Uploaded PNG, kept as a data URL so it survives postMessage and preset storage
+    position: WatermarkPosition;
+    opacity: number; // 0-100
+    scale: number; // Width of the mark as a percentage of the output width
+    margin: number; // px from the edge, or the gap between repeats when tiled
+    color: string; // Text colour
+}
+
+// What fills in behind the subject once the background is removed
+export interface BackgroundSettings {
+    type: 'transparent' | 'color' | 'linear-gradient' | 'radial-gradient' | 'image' | 'blur';
+    color: string;
+    gradientFrom: string;
+    gradientTo: string;
+    gradientAngle: number; // Degrees, linear gradient only
+    imageDataUrl: string | null; // Uploaded PNG or JPEG, kept as a data URL like the watermark logo
+    blurRadius: number; // px at the output size
+    shadow: boolean; // Soft drop shadow under the subject
+    shadowBlur: number; // px
+    shadowOffsetY: number; // px
+    shadowOpacity: number; // 0-100
+}
+
+// How the subject is separated from the background, for background removal and smart cover
+export interface RemovalSettings extends FloodFillSettings {
+    engine: 'imgly' | 'flood-fill'; // flood-fill is instant and needs no model, but only suits plain backgrounds
+    model: ImglyModel;
+    // Workers treat both as foreground; the UI turns it into a separate mask variant per output
+    output: RemovalOutput;
+}
+
+export interface ProcessOptions {
+    resize?: ResizeOptions;
+    borderRadius?: number;
+    format: ImageFormat;
+    quality?: number; // 0-100 for jpeg/webp/avif
+    removeBackground?: boolean;
+    removal?: RemovalSettings; // Engine for background removal and smart cover (default: imgly)
+    subjectPadding?: number; // smart-cover: space kept around the subject, as a % of its size on each side
+    filenameTemplate?: string;
+    presetName?: string | null; // What {preset} expands to
+    maxFileSizeKB?: number; // When set, quality (and optionally size) is lowered until the file fits
+    allowDownscale?: boolean; // Let the max file size search shrink the dimensions once quality bottoms out
+    metadata?: MetadataMode; // What to copy from the original into jpeg/webp output (default: strip)
+    watermark?: WatermarkSettings;
+    background?: BackgroundSettings; // Fills in behind the cutout; only used when removeBackground is on
+    padding?: number; // % of the canvas left empty on each side, e.g. for icon safe zones
+    matte?: string; // Opaque colour behind the image, for outputs that can't have transparency
+}
+
+/**
+ * The options an image is actually processed with: the batch (or variant) options
+ * with the image's own overrides on top.
+ */
+export function applyOverrides(options: ProcessOptions, overrides?: ImageOverrides): ProcessOptions {
+    if (!overrides) return options;
+    return {
+        ...options,
+        resize: options.resize && {
+            width: overrides.width ?? options.resize.width,
+            height: overrides.height ?? options.resize.height,
+            fit: overrides.fit ?? options.resize.fit,
+        },
+        borderRadius: overrides.borderRadius ?? options.borderRadius,
+        removeBackground: overrides.removeBackground ?? options.removeBackground,
+        format: overrides.format ?? options.format,
+        quality: overrides.quality ?? options.quality,
+    };
+}
+
+// --- Requests (UI -> worker) ---
+
+export interface PipelineImage {
+    file: File;
+    id: string;
+    index: number; // Position in the whole batch (0-based); {index} is this plus one whichever worker gets it
+    page?: number; // Page of a multi-page TIFF (0-based)
+    focalPoint?: FocalPoint;
+    cropRect?: CropRect;
+    overrides?: ImageOverrides; // Replace the batch options for this image only
+    variant?: string; // Key into variants; the same image appears once per output in a multi-output run
+}
+
+export interface ProcessRequest {
+    images: PipelineImage[];
+    options: ProcessOptions;
+    variants?: Record<string, ProcessOptions>;
+}
+
+export interface ControlMessage {
+    type: 'pause' | 'resume' | 'cancel';
+}
+
+export type WorkerRequest = ProcessRequest | ControlMessage;
+
+// --- Responses (worker -> UI) ---
+
+export interface ProcessedImageResult {
+    blob: Blob;
+    filename: string;
+    format: ImageFormat; // What the blob is encoded as; the filename's extension can't be relied on
+    width: number;
+    height: number;
+    size: number;
+    originalId: string; // Matches the result back to its PipelineImage id
+    quality?: number; // Quality the blob was encoded at (not set for png)
+    targetSizeMet?: boolean; // Only set when a max file size was requested
+    rotatedFromExif?: boolean; // The original had an EXIF orientation other than upright
+    variant?: string; // Variant key the output was made for in a multi-output run
+}
+
+export interface ProgressUpdateMessage {
+    type: 'progress';
+    processedCount: number;
+    totalCount: number;
+    imageName: string;
+}
+
+export interface ModelLoadProgressMessage {
+    type: 'model-load-progress';
+    key: string;
+    current: number;
+    total: number;
+}
+
+export interface ImageErrorMessage {
+    type: 'error';
+    imageId: string;
+    imageName: string;
+    variant?: string;
+    stage: PipelineStage;
+    message: string;
+}
+
+export interface ResultMessage {
+    type: 'result';
+    result: ProcessedImageResult;
+}
+
+export interface BatchSummary {
+    processedCount: number;
+    failedCount: number;
+    cancelled: boolean; // True when the run was stopped before every image was processed
+}
+
+export interface DoneMessage extends BatchSummary {
+    type: 'done';
+}
+
+export type WorkerResponse = ProgressUpdateMessage | ResultMessage | DoneMessage | ModelLoadProgressMessage | ImageErrorMessage;
+
+const RESPONSE_TYPES: WorkerResponse['type'][] = ['progress', 'result', 'done', 'model-load-progress', 'error'];
+const CONTROL_TYPES: ControlMessage['type'][] = ['pause', 'resume', 'cancel'];
+
+// --- Sending ---
+
+interface MessageTarget {
+    postMessage(message: unknown, options?: StructuredSerializeOptions): void;
+}
+
+/**
+ * Collects the buffers in a message that can be moved to the other thread instead of copied.
+ * Blobs and Files aren't transferable, but they're already passed by handle (their bytes
+ * aren't copied), so only ArrayBuffers, typed array buffers and ImageBitmaps need moving.
+ * A transferred buffer is unusable on the sending side afterwards.
+ */
+export function getTransferables(value: unknown, found: Set<Transferable> = new Set()): Transferable[] {
+    if (value instanceof ArrayBuffer) {
+        found.add(value);
+    } else if (ArrayBuffer.isView(value) && value.buffer instanceof ArrayBuffer) {
+        found.add(value.buffer);
+    } else if (typeof ImageBitmap !== 'undefined' && value instanceof ImageBitmap) {
+        found.add(value);
+    } else if (Array.isArray(value)) {
+        value.forEach(item => getTransferables(item, found));
+    } else if (value && typeof value === 'object' && !(value instanceof Blob)) {
+        Object.values(value).forEach(item => getTransferables(item, found));
+    }
+    return [...found];
+}
+
+/**
+ * Posts a request or response stamped with the protocol version, transferring its buffers.
+ * @param target A Worker, or the worker's own global scope
+ */
+export function postPipelineMessage(target: MessageTarget, message: WorkerRequest | WorkerResponse): void {
+    target.postMessage({ ...message, version: PROTOCOL_VERSION }, { transfer: getTransferables(message) });
+}
+
+// --- Validation ---
+
+export const isNumberInRange = (value: unknown, min: number, max: number): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isOneOf = <T>(list: readonly T[], value: unknown): value is T => list.includes(value as T);
+
+const checkVersion = (data: Record<string, unknown>) => {
+    if (data.version !== PROTOCOL_VERSION) {
+        throw new Error(`Unsupported worker protocol version ${String(data.version)} (expected ${PROTOCOL_VERSION})`);
+    }
+};
+
+/**
+ * Validates a watermark from a message or a stored preset. It's all or nothing,
+ * since a half-valid watermark would be stamped with surprising settings.
+ * @returns The watermark, or null if anything about it is invalid
+ */
+export function parseWatermark(value: unknown): WatermarkSettings | null {
+    if (!isRecord(value)) return null;
+    if (!isOneOf(WATERMARK_TYPES, value.type) || !isOneOf(WATERMARK_POSITIONS, value.position)) return null;
+    if (typeof value.text !== 'string' || typeof value.color !== 'string') return null;
+    if (value.imageDataUrl !== null && !(typeof value.imageDataUrl === 'string' && value.imageDataUrl.startsWith('data:image/'))) return null;
+    if (!isNumberInRange(value.opacity, 0, 100) || !isNumberInRange(value.scale, 1, 100) || !isNumberInRange(value.margin, 0, 10000)) return null;
+
+    return {
+        type: value.type,
+        text: value.text,
+        imageDataUrl: value.imageDataUrl,
+        position: value.position,
+        opacity: value.opacity,
+        scale: value.scale,
+        margin: value.margin,
+        color: value.color,
+    };
+}
+
+/**
+ * Validates a replacement background, all or nothing like the watermark.
+ */
+export function parseBackground(value: unknown): BackgroundSettings | null {
+    if (!isRecord(value)) return null;
+    if (!isOneOf(BACKGROUND_TYPES, value.type)) return null;
+    if (typeof value.color !== 'string' || typeof value.gradientFrom !== 'string' || typeof value.gradientTo !== 'string') return null;
+    if (value.imageDataUrl !== null && !(typeof value.imageDataUrl === 'string' && value.imageDataUrl.startsWith('data:image/'))) return null;
+    if (typeof value.shadow !== 'boolean') return null;
+    if (!isNumberInRange(value.gradientAngle, 0, 360) || !isNumberInRange(value.blurRadius, 0, 1000)) return null;
+    if (!isNumberInRange(value.shadowBlur, 0, 1000) || !isNumberInRange(value.shadowOffsetY, -1000, 1000) || !isNumberInRange(value.shadowOpacity, 0, 100)) return null;
+
+    return {
+        type: value.type,
+        color: value.color,
+        gradientFrom: value.gradientFrom,
+        gradientTo: value.gradientTo,
+        gradientAngle: value.gradientAngle,
+        imageDataUrl: value.imageDataUrl,
+        blurRadius: value.blurRadius,
+        shadow: value.shadow,
+        shadowBlur: value.shadowBlur,
+        shadowOffsetY: value.shadowOffsetY,
+        shadowOpacity: value.shadowOpacity,
+    };
+}
+
+/**
+ * Validates the background removal engine settings, all or nothing.
+ */
+export function parseRemoval(value: unknown): RemovalSettings | null {
+    if (!isRecord(value)) return null;
+    if (!isOneOf(REMOVAL_ENGINES, value.engine) || !isOneOf(IMGLY_MODELS, value.model) || !isOneOf(REMOVAL_OUTPUTS, value.output)) return null;
+    if (!isNumberInRange(value.tolerance, 0, 442) || !isNumberInRange(value.feather, 0, 1000) || !isOneOf(EDGE_SAMPLING_MODES, value.edgeSampling)) return null;
+
+    return {
+        engine: value.engine,
+        model: value.model,
+        output: value.output,
+        tolerance: value.tolerance,
+        feather: value.feather,
+        edgeSampling: value.edgeSampling,
+    };
+}
+
+const parseFocalPoint = (value: unknown): FocalPoint | null =>
+    isRecord(value) && isNumberInRange(value.x, 0, 1) && isNumberInRange(value.y, 0, 1) ? { x: value.x, y: value.y } : null;
+
+const parseCropRect = (value: unknown): CropRect | null =>
+    isRecord(value) && isNumberInRange(value.x, 0, 1) && isNumberInRange(value.y, 0, 1)
+        && isNumberInRange(value.width, 0, 1) && isNumberInRange(value.height, 0, 1)
+        ? { x: value.x, y: value.y, width: value.width, height: value.height }
+        : null;
+
+const NUMBER_OPTION_RANGES = {
+    borderRadius: [0, Infinity],
+    quality: [0, 100],
+    subjectPadding: [0, Infinity],
+    maxFileSizeKB: [0, Infinity],
+    padding: [0, 50],
+} as const;
+
+/**
+ * Checks a set of processing options field by field. Unlike presets, nothing is silently dropped:
+ * a bad option means the UI and worker disagree, and guessing would produce the wrong images.
+ * @param value The options as received
+ * @param path Where the options sit in the message, for the error message
+ * @throws If any field is present with the wrong type or out of range
+ */
+export function parseProcessOptions(value: unknown, path = 'options'): ProcessOptions {
+    if (!isRecord(value)) throw new Error(`${path} must be an object`);
+    const invalid = (field: string) => new Error(`${path}.${field} is invalid`);
+    const has = (field: string) => value[field] !== undefined;
+
+    if (!isOneOf(IMAGE_FORMATS, value.format)) throw invalid('format');
+    const options: ProcessOptions = { format: value.format };
+
+    if (has('resize')) {
+        const resize = value.resize;
+        if (!isRecord(resize) || !isNumberInRange(resize.width, 1, Infinity) || !isNumberInRange(resize.height, 1, Infinity) || !isOneOf(FIT_OPTIONS, resize.fit)) {
+            throw invalid('resize');
+        }
+        options.resize = { width: Math.round(resize.width), height: Math.round(resize.height), fit: resize.fit };
+    }
+
+    (Object.keys(NUMBER_OPTION_RANGES) as (keyof typeof NUMBER_OPTION_RANGES)[]).forEach(field => {
+        if (!has(field)) return;
+        const [min, max] = NUMBER_OPTION_RANGES[field];
+        if (!isNumberInRange(value[field], min, max)) throw invalid(field);
+        options[field] = value[field] as number;
+    });
+
+    (['removeBackground', 'allowDownscale'] as const).forEach(field => {
+        if (!has(field)) return;
+        if (typeof value[field] !== 'boolean') throw invalid(field);
+        options[field] = value[field] as boolean;
+    });
+
+    (['filenameTemplate', 'matte'] as const).forEach(field => {
+        if (!has(field)) return;
+        if (typeof value[field] !== 'string') throw invalid(field);
+        options[field] = value[field] as string;
+    });
+
+    if (has('presetName')) {
+        if (value.presetName !== null && typeof value.presetName !== 'string') throw invalid('presetName');
+        options.presetName = value.presetName;
+    }
+    if (has('metadata')) {
+        if (!isOneOf(METADATA_MODES, value.metadata)) throw invalid('metadata');
+        options.metadata = value.metadata;
+    }
+    if (has('removal')) {
+        const removal = parseRemoval(value.removal);
+        if (!removal) throw invalid('removal');
+        options.removal = removal;
+    }
+    if (has('watermark')) {
+        const watermark = parseWatermark(value.watermark);
+        if (!watermark) throw invalid('watermark');
+        options.watermark = watermark;
+    }
+    if (has('background')) {
+        const background = parseBackground(value.background);
+        if (!background) throw invalid('background');
+        options.background = background;
+    }
+    return options;
+}
+
+function parseOverrides(value: unknown, path: string): ImageOverrides {
+    if (!isRecord(value)) throw new Error(`${path} must be an object`);
+    const overrides: ImageOverrides = {};
+    const invalid = (field: string) => new Error(`${path}.${field} is invalid`);
+
+    (['width', 'height'] as const).forEach(field => {
+        if (value[field] === undefined) return;
+        if (!isNumberInRange(value[field], 1, Infinity)) throw invalid(field);
+        overrides[field] = value[field] as number;
+    });
+    if (value.borderRadius !== undefined) {
+        if (!isNumberInRange(value.borderRadius, 0, Infinity)) throw invalid('borderRadius');
+        overrides.borderRadius = value.borderRadius;
+    }
+    if (value.quality !== undefined) {
+        if (!isNumberInRange(value.quality, 0, 100)) throw invalid('quality');
+        overrides.quality = value.quality;
+    }
+    if (value.fit !== undefined) {
+        if (!isOneOf(FIT_OPTIONS, value.fit)) throw invalid('fit');
+        overrides.fit = value.fit;
+    }
+    if (value.format !== undefined) {
+        if (!isOneOf(IMAGE_FORMATS, value.format)) throw invalid('format');
+        overrides.format = value.format;
+    }
+    if (value.removeBackground !== undefined) {
+        if (typeof value.removeBackground !== 'boolean') throw invalid('removeBackground');
+        overrides.removeBackground = value.removeBackground;
+    }
+    return overrides;
+}
+
+function parsePipelineImage(value: unknown, path: string): PipelineImage {
+    if (!isRecord(value)) throw new Error(`${path} must be an object`);
+    const invalid = (field: string) => new Error(`${path}.${field} is invalid`);
+
+    if (!(value.file instanceof File)) throw invalid('file');
+    if (typeof value.id !== 'string') throw invalid('id');
+    if (!Number.isInteger(value.index) || (value.index as number) < 0) throw invalid('index');
+    const image: PipelineImage = { file: value.file, id: value.id, index: value.index as number };
+
+    if (value.page !== undefined) {
+        if (!Number.isInteger(value.page) || (value.page as number) < 0) throw invalid('page');
+        image.page = value.page as number;
+    }
+    if (value.focalPoint !== undefined) {
+        const focalPoint = parseFocalPoint(value.focalPoint);
+        if (!focalPoint) throw invalid('focalPoint');
+        image.focalPoint = focalPoint;
+    }
+    if (value.cropRect !== undefined) {
+        const cropRect = parseCropRect(value.cropRect);
+        if (!cropRect) throw invalid('cropRect');
+        image.cropRect = cropRect;
+    }
+    if (value.overrides !== undefined) image.overrides = parseOverrides(value.overrides, `${path}.overrides`);
+    if (value.variant !== undefined) {
+        if (typeof value.variant !== 'string') throw invalid('variant');
+        image.variant = value.variant;
+    }
+    return image;
+}
+
+/**
+ * Reads a message sent to a worker: either a batch to process or a pause/resume/cancel control.
+ * @throws If the message is from another protocol version or doesn't match the schema
+ */
+export function readWorkerRequest(data: unknown): WorkerRequest {
+    if (!isRecord(data)) throw new Error('Worker message must be an object');
+    checkVersion(data);
+
+    if ('type' in data) {
+        if (!isOneOf(CONTROL_TYPES, data.type)) throw new Error(`Unknown control message ${String(data.type)}`);
+        return { type: data.type };
+    }
+
+    if (!Array.isArray(data.images)) throw new Error('images must be an array');
+    const request: ProcessRequest = {
+        images: data.images.map((image, i) => parsePipelineImage(image, `images[${i}]`)),
+        options: parseProcessOptions(data.options),
+    };
+    if (data.variants !== undefined) {
+        if (!isRecord(data.variants)) throw new Error('variants must be an object');
+        request.variants = Object.fromEntries(Object.entries(data.variants)
+            .map(([key, options]) => [key, parseProcessOptions(options, `variants.${key}`)]));
+    }
+    // A variant the request doesn't define would quietly fall back to the batch options
+    request.images.forEach(({ variant }, i) => {
+        if (variant !== undefined && !request.variants?.[variant]) throw new Error(`images[${i}].variant ${variant} isn't defined`);
+    });
+    return request;
+}
+
+/**
+ * Reads a message from a worker. Responses are only checked for their version and type:
+ * they come from code built alongside this module, unlike requests, which carry user settings.
+ * @returns The response, or null if it's from another protocol version or of an unknown type
+ */
+export function readWorkerResponse(data: unknown): WorkerResponse | null {
+    if (!isRecord(data) || data.version !== PROTOCOL_VERSION || !isOneOf(RESPONSE_TYPES, data.type)) return null;
+    return data as unknown as WorkerResponse;
+}
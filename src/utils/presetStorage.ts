@@ -0,0 +1,163 @@
+// src/utils/presetStorage.ts
+
+import type { Preset } from "../components/UploadDropzone";
+import { FIT_OPTIONS, IMAGE_FORMATS, parseBackground, parseWatermark, type FitOption, type ImageFormat } from "./pipeline";
+
+const STORAGE_KEY = "user-presets";
+const EXPORT_VERSION = 1;
+
+// Background and logo images are saved inside presets, and localStorage holds about 5 MB for everything,
+// so larger images are shrunk to what an output could use before they're kept
+export const MAX_BACKGROUND_SIDE = 2048;
+export const MAX_WATERMARK_SIDE = 1024;
+const SMALL_IMAGE_BYTES = 256 * 1024;
+const STORED_IMAGE_QUALITY = 0.85;
+
+interface PresetExportFile {
+    version: number;
+    presets: Preset[];
+}
+
+/**
+ * Checks that an unknown value (from storage or an imported file) is a usable preset.
+ * Optional fields are dropped if they have the wrong type rather than rejecting the whole preset.
+ * @returns The cleaned preset, or null if the required fields are missing or invalid
+ */
+function toPreset(value: unknown): Preset | null {
+    if (!value || typeof value !== 'object') return null;
+    const raw = value as Record<string, unknown>;
+
+    const { name, width, height, fit } = raw;
+    if (typeof name !== 'string' || name.trim() === '') return null;
+    if (typeof width !== 'number' || !Number.isFinite(width) || width <= 0) return null;
+    if (typeof height !== 'number' || !Number.isFinite(height) || height <= 0) return null;
+    if (!FIT_OPTIONS.includes(fit as FitOption)) return null;
+
+    const preset: Preset = { name: name.trim(), width: Math.round(width), height: Math.round(height), fit: fit as FitOption };
+    if (typeof raw.radius === 'number' && raw.radius >= 0) preset.radius = raw.radius;
+    if (IMAGE_FORMATS.includes(raw.format as ImageFormat)) preset.format = raw.format as ImageFormat;
+    if (typeof raw.quality === 'number' && raw.quality >= 0 && raw.quality <= 100) preset.quality = raw.quality;
+    if (typeof raw.removeBackground === 'boolean') preset.removeBackground = raw.removeBackground;
+    if (typeof raw.subjectPadding === 'number' && raw.subjectPadding >= 0) preset.subjectPadding = raw.subjectPadding;
+    if (typeof raw.filenameTemplate === 'string') preset.filenameTemplate = raw.filenameTemplate;
+    const watermark = parseWatermark(raw.watermark);
+    if (watermark) preset.watermark = watermark;
+    const background = parseBackground(raw.background);
+    if (background) preset.background = background;
+    return preset;
+}
+
+/**
+ * Builds a key for a preset from its name, e.g. "Marketplace Listing" -> "marketplace_listing".
+ * The key is what the {preset} filename variable expands to, same as the built-in presets.
+ * @param name The preset's display name
+ * @param takenKeys Keys already in use (built-in and user presets)
+ * @returns A key that isn't in takenKeys
+ */
+export function createPresetKey(name: string, takenKeys: Set<string>): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'preset';
+    let key = base;
+    let counter = 2;
+    while (takenKeys.has(key)) {
+        key = `${base}_${counter}`;
+        counter++;
+    }
+    return key;
+}
+
+/**
+ * Reads the user's saved presets from localStorage, skipping any entries that no longer validate.
+ */
+export function loadUserPresets(): Record<string, Preset> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return {};
+        const parsed: unknown = JSON.parse(stored);
+        if (!parsed || typeof parsed !== 'object') return {};
+
+        const presets: Record<string, Preset> = {};
+        Object.entries(parsed as Record<string, unknown>).forEach(([key, value]) => {
+            const preset = toPreset(value);
+            if (preset) presets[key] = preset;
+        });
+        return presets;
+    } catch (err) {
+        console.error("Failed to read saved presets", err);
+        return {};
+    }
+}
+
+/**
+ * Writes the user's presets to localStorage.
+ * @throws If the browser refuses, usually because images in the presets have used up its storage
+ */
+export function saveUserPresets(presets: Record<string, Preset>): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    } catch (err) {
+        console.error("Failed to save presets", err);
+        if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+            throw new Error("There isn't enough browser storage to save this preset. Try a smaller background or logo image, or delete presets you no longer use.");
+        }
+        throw err;
+    }
+}
+
+/**
+ * Reads a background or logo image as a data URL small enough to keep in a preset.
+ * Small images are kept as they are; anything bigger is scaled to fit maxSide and re-encoded.
+ * @param file A PNG or JPEG
+ * @param maxSide Longest side to keep, in pixels
+ * @param type What to re-encode as; the browser falls back to PNG for types it can't write
+ */
+export async function readImageForPreset(file: File, maxSide: number, type: string): Promise<string> {
+    const bitmap = await createImageBitmap(file);
+    try {
+        const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+        if (scale === 1 && file.size <= SMALL_IMAGE_BYTES) {
+            return await new Promise<string>((resolve, reject) => {
+                const reader = new FileReader();
+                reader.onload = () => resolve(reader.result as string);
+                reader.onerror = () => reject(reader.error);
+                reader.readAsDataURL(file);
+            });
+        }
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+        canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get a 2D context to resize the image');
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL(type, STORED_IMAGE_QUALITY);
+    } finally {
+        bitmap.close();
+    }
+}
+
+/**
+ * Serialises presets into a shareable JSON file.
+ */
+export function exportPresets(presets: Record<string, Preset>): Blob {
+    const file: PresetExportFile = { version: EXPORT_VERSION, presets: Object.values(presets) };
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Parses a presets file created by exportPresets.
+ * Also accepts a bare array of presets so hand-written files work.
+ * @param text The file's contents
+ * @returns The valid presets found in the file
+ * @throws If the file isn't JSON or contains no valid presets
+ */
+export function parsePresetFile(text: string): Preset[] {
+    const parsed: unknown = JSON.parse(text);
+    const entries = Array.isArray(parsed) ? parsed : (parsed as Partial<PresetExportFile>)?.presets;
+    if (!Array.isArray(entries)) {
+        throw new Error("File doesn't contain a list of presets");
+    }
+    const presets = entries.map(toPreset).filter((preset): preset is Preset => preset !== null);
+    if (presets.length === 0) {
+        throw new Error("File doesn't contain any valid presets");
+    }
+    return presets;
+}
@@ -0,0 +1,86 @@
+// src/utils/sessionStore.ts
+
+import { runStoreRequest, runTransaction, SESSION_IMAGES_STORE, SESSION_STORE } from "./keyValueStore";
+
+// Bump when the stored shape changes in a way older sessions can't be read with; they're then dropped
+const SESSION_VERSION = 1;
+const SESSION_KEY = "current";
+
+interface SessionRecord<Settings> {
+    version: number;
+    savedAt: number; // Unix timestamp of the last save
+    settings: Settings;
+    imageIds: string[]; // Image order, since the image store is keyed by id
+}
+
+export interface SavedSession<Settings, Image> {
+    savedAt: number;
+    settings: Settings;
+    images: Image[];
+}
+
+export interface StorageUsage {
+    usage: number; // Bytes used by this site, not only the session
+    quota: number;
+}
+
+/**
+ * Reads the saved session, or null if there isn't one (or it's from an incompatible version).
+ * Images are returned in their saved order; any whose record went missing are left out.
+ */
+export async function loadSession<Settings, Image extends { id: string }>(): Promise<SavedSession<Settings, Image> | null> {
+    const record = await runStoreRequest(SESSION_STORE, "readonly", store => store.get(SESSION_KEY)) as SessionRecord<Settings> | undefined;
+    if (!record || record.version !== SESSION_VERSION) return null;
+
+    const stored = await runStoreRequest(SESSION_IMAGES_STORE, "readonly", store => store.getAll()) as Image[];
+    const byId = new Map(stored.map(image => [image.id, image]));
+    const images = record.imageIds.map(id => byId.get(id)).filter((image): image is Image => image !== undefined);
+    return { savedAt: record.savedAt, settings: record.settings, images };
+}
+
+/**
+ * Saves the session incrementally: only images that changed are written, since each record holds
+ * the original file and every output blob.
+ * @param settings The option values, replaced on every save
+ * @param imageIds Every image in the session, in order
+ * @param changedImages Images that are new or changed since the last save
+ * @param removedIds Images that are no longer in the session
+ */
+export async function saveSession<Settings, Image extends { id: string }>(
+    settings: Settings,
+    imageIds: string[],
+    changedImages: Image[],
+    removedIds: string[],
+): Promise<void> {
+    const record: SessionRecord<Settings> = { version: SESSION_VERSION, savedAt: Date.now(), settings, imageIds };
+    await runTransaction([SESSION_STORE, SESSION_IMAGES_STORE], "readwrite", transaction => {
+        const images = transaction.objectStore(SESSION_IMAGES_STORE);
+        removedIds.forEach(id => images.delete(id));
+        changedImages.forEach(image => images.put(image));
+        transaction.objectStore(SESSION_STORE).put(record, SESSION_KEY);
+    });
+}
+
+export async function clearSession(): Promise<void> {
+    await runTransaction([SESSION_STORE, SESSION_IMAGES_STORE], "readwrite", transaction => {
+        transaction.objectStore(SESSION_STORE).clear();
+        transaction.objectStore(SESSION_IMAGES_STORE).clear();
+    });
+}
+
+/**
+ * How much browser storage the site is using, where the browser says.
+ */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+}
+
+/**
+ * Asks the browser not to evict the site's storage under pressure. Browsers may say no; the session is still saved.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    return (await navigator.storage.persisted()) || (await navigator.storage.persist());
+}
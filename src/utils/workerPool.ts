@@ -0,0 +1,141 @@
+// src/utils/workerPool.ts
+
+import { createImageWorker } from "./imageWorker";
+import {
+    postPipelineMessage,
+    readWorkerResponse,
+    type BatchSummary,
+    type ImageErrorMessage,
+    type PipelineImage,
+    type ProcessedImageResult,
+    type ProcessOptions,
+} from "./pipeline";
+
+interface WorkerPoolHandlers {
+    onProgress: (processedCount: number, totalCount: number, imageName: string) => void;
+    onModelLoadProgress: (current: number, total: number) => void;
+    onResult: (result: ProcessedImageResult) => void;
+    onImageError: (error: ImageErrorMessage) => void;
+    onDone: (summary: BatchSummary) => void;
+    onError: (error: ErrorEvent) => void;
+}
+
+export interface WorkerPool {
+    size: number;
+    pause: () => void;
+    resume: () => void;
+    cancel: () => void; // Workers finish their current image, then report what they completed
+    terminate: () => void;
+}
+
+// Each background-removal worker holds its own copy of the model, so keep the pool small when it is on.
+const MAX_BACKGROUND_REMOVAL_WORKERS = 4;
+
+/**
+ * Works out how many workers to spawn for a batch.
+ * Leaves one core for the UI thread and never spawns more workers than images.
+ * @param imageCount Number of images in the batch
+ * @param loadsModel Whether the background-removal model will be loaded in each worker
+ * @returns The pool size (at least 1)
+ */
+export function getWorkerPoolSize(imageCount: number, loadsModel: boolean): number {
+    const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 4;
+    let size = Math.max(1, cores - 1);
+    if (loadsModel) {
+        size = Math.min(size, MAX_BACKGROUND_REMOVAL_WORKERS);
+    }
+    return Math.max(1, Math.min(size, imageCount));
+}
+
+/**
+ * Spreads a batch across a pool of image workers and merges their messages.
+ * Images are dealt round-robin so each worker gets a similar mix of files,
+ * and every image carries its batch index so filenames don't depend on which worker finishes first.
+ * @param images The images to process, each tagged with its position in the batch
+ * @param options Processing options, sent unchanged to every worker
+ * @param handlers Callbacks receiving each result as it arrives, plus the combined progress and summary
+ * @param variants Options per preset key for multi-preset runs; images with a variant use these instead of options
+ * @returns A handle to pause, resume, cancel or stop every worker in the pool
+ */
+export function runWorkerPool(
+    images: PipelineImage[],
+    options: ProcessOptions,
+    handlers: WorkerPoolHandlers,
+    variants?: Record<string, ProcessOptions>
+): WorkerPool {
+    // Smart cover runs the segmentation model even when the background is kept; the flood-fill engine never needs it
+    const overridesNeedSubject = images.some(({ overrides }) => overrides?.removeBackground || overrides?.fit === 'smart-cover');
+    const loadsModel = [options, ...Object.values(variants ?? {})].some(o => o.removal?.engine !== 'flood-fill'
+        && (o.removeBackground || o.resize?.fit === 'smart-cover' || overridesNeedSubject));
+    const size = getWorkerPoolSize(images.length, loadsModel);
+    const totalCount = images.length;
+
+    const chunks: PipelineImage[][] = Array.from({ length: size }, () => []);
+    images.forEach((image, position) => {
+        chunks[position % size].push(image);
+    });
+
+    const workers = chunks.map(() => createImageWorker());
+    const processedCounts = new Array<number>(size).fill(0);
+    let failedCount = 0;
+    const modelProgress = new Array<{ current: number; total: number } | null>(size).fill(null);
+    const summary: BatchSummary = { processedCount: 0, failedCount: 0, cancelled: false };
+    let finishedWorkers = 0;
+
+    const terminate = () => workers.forEach(worker => worker.terminate());
+    const broadcast = (type: 'pause' | 'resume' | 'cancel') => workers.forEach(worker => postPipelineMessage(worker, { type }));
+
+    workers.forEach((worker, workerIndex) => {
+        worker.onmessage = (e: MessageEvent<unknown>) => {
+            const data = readWorkerResponse(e.data);
+            if (!data) {
+                console.warn("Ignoring a message the image worker protocol doesn't recognise", e.data);
+                return;
+            }
+            if (data.type === 'progress') {
+                processedCounts[workerIndex] = data.processedCount;
+                const processedCount = processedCounts.reduce((sum, count) => sum + count, 0) + failedCount;
+                handlers.onProgress(processedCount, totalCount, data.imageName);
+            } else if (data.type === 'error') {
+                // Failed images still count towards progress so the bar reaches 100%
+                failedCount++;
+                handlers.onImageError(data);
+                const processedCount = processedCounts.reduce((sum, count) => sum + count, 0) + failedCount;
+                handlers.onProgress(processedCount, totalCount, data.imageName);
+            } else if (data.type === 'model-load-progress') {
+                modelProgress[workerIndex] = { current: data.current, total: data.total };
+                const loading = modelProgress.filter((p): p is { current: number; total: number } => p !== null);
+                handlers.onModelLoadProgress(
+                    loading.reduce((sum, p) => sum + p.current, 0),
+                    loading.reduce((sum, p) => sum + p.total, 0)
+                );
+            } else if (data.type === 'result') {
+                handlers.onResult(data.result);
+            } else if (data.type === 'done') {
+                summary.processedCount += data.processedCount;
+                summary.failedCount += data.failedCount;
+                summary.cancelled = summary.cancelled || data.cancelled;
+                finishedWorkers++;
+                if (finishedWorkers === size) {
+                    terminate();
+                    handlers.onDone(summary);
+                }
+            }
+        };
+
+        worker.onerror = (error) => {
+            terminate();
+            handlers.onError(error);
+        };
+
+        postPipelineMessage(worker, { images: chunks[workerIndex], options, variants });
+    });
+
+    return {
+        size,
+        pause: () => broadcast('pause'),
+        resume: () => broadcast('resume'),
+        cancel: () => broadcast('cancel'),
+        terminate,
+    };
+}
@@ -0,0 +1,227 @@
+// src/utils/zipExport.ts
+
+import JSZip from "jszip";
+import type { FitOption, ImageFormat, MetadataMode, ProcessOptions } from "./pipeline";
+
+// Images are already compressed, so storing is nearly as small and much faster than deflating them again
+export type ZipCompression = 'store' | 'deflate';
+export type ManifestFormat = 'none' | 'json' | 'csv' | 'both';
+
+/** The settings an output was made with, flattened so they fit in a CSV row. */
+export interface ManifestSettings {
+    fit?: FitOption;
+    targetWidth?: number;
+    targetHeight?: number;
+    borderRadius: number;
+    removeBackground: boolean;
+    background: string; // Replacement background type, or "transparent"
+    watermark: string; // Watermark type, or "none"
+    metadata: MetadataMode;
+    maxFileSizeKB?: number;
+}
+
+export interface ManifestEntry {
+    original: string;
+    output: string; // Path inside the archive
+    archive?: string; // Which archive holds the file, when the export was split
+    preset?: string;
+    width: number;
+    height: number;
+    bytes: number;
+    format: ImageFormat;
+    quality?: number;
+    settings: ManifestSettings;
+}
+
+/** One source image's share of the export; an image's files always stay in the same archive. */
+export interface ZipExportItem {
+    bytes: number;
+    addTo: (zip: JSZip) => Promise<void>;
+    manifest: ManifestEntry[];
+}
+
+export interface ZipExportOptions {
+    baseName: string; // Archive name without ".zip"
+    compression: ZipCompression;
+    manifest: ManifestFormat;
+    splitBytes?: number; // Start a new archive once a part would go over this; unset keeps everything in one
+    onProgress?: (part: number, partCount: number, percent: number) => void;
+}
+
+const MANIFEST_COLUMNS = [
+    'original', 'output', 'archive', 'preset', 'width', 'height', 'bytes', 'format', 'quality',
+    'fit', 'targetWidth', 'targetHeight', 'borderRadius', 'removeBackground', 'background', 'watermark', 'metadata', 'maxFileSizeKB',
+] as const;
+
+/**
+ * Summarises the options an output was processed with for the manifest.
+ * @param options The options after per-image overrides, see applyOverrides
+ */
+export function describeSettings(options: ProcessOptions): ManifestSettings {
+    return {
+        fit: options.resize?.fit,
+        targetWidth: options.resize?.width,
+        targetHeight: options.resize?.height,
+        borderRadius: options.borderRadius ?? 0,
+        removeBackground: options.removeBackground ?? false,
+        background: options.removeBackground ? options.background?.type ?? 'transparent' : 'transparent',
+        watermark: options.watermark?.type ?? 'none',
+        metadata: options.metadata ?? 'strip',
+        maxFileSizeKB: options.maxFileSizeKB,
+    };
+}
+
+const csvField = (value: string | number | boolean | undefined): string => {
+    if (value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function buildManifestCsv(entries: ManifestEntry[]): string {
+    const rows = entries.map(({ settings, ...entry }) => {
+        const row: Record<string, string | number | boolean | undefined> = { ...entry, ...settings };
+        return MANIFEST_COLUMNS.map(column => csvField(row[column])).join(',');
+    });
+    return [MANIFEST_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * The manifest files to write alongside the outputs, if any.
+ */
+export function buildManifestFiles(entries: ManifestEntry[], format: ManifestFormat): { name: string; content: string }[] {
+    const files: { name: string; content: string }[] = [];
+    if (format === 'json' || format === 'both') files.push({ name: 'manifest.json', content: JSON.stringify(entries, null, 2) });
+    if (format === 'csv' || format === 'both') files.push({ name: 'manifest.csv', content: buildManifestCsv(entries) });
+    return files;
+}
+
+/**
+ * Groups items into archives of at most maxBytes each, keeping their order.
+ * An item larger than the limit gets an archive of its own rather than being split.
+ */
+function splitIntoParts(items: ZipExportItem[], maxBytes?: number): ZipExportItem[][] {
+    if (!maxBytes) return [items];
+    const parts: ZipExportItem[][] = [];
+    let current: ZipExportItem[] = [];
+    let currentBytes = 0;
+    for (const item of items) {
+        if (current.length > 0 && currentBytes + item.bytes > maxBytes) {
+            parts.push(current);
+            current = [];
+            currentBytes = 0;
+        }
+        current.push(item);
+        currentBytes += item.bytes;
+    }
+    if (current.length > 0) parts.push(current);
+    return parts;
+}
+
+/**
+ * Generates an archive through JSZip's internal stream, handing each chunk to write as it's produced
+ * and reporting progress along the way. While an async write is pending the stream is paused,
+ * so a slow disk holds generation back instead of chunks piling up in memory.
+ */
+function generateZip(
+    zip: JSZip,
+    compression: ZipCompression,
+    onPercent: (percent: number) => void,
+    write: (chunk: Uint8Array<ArrayBuffer>) => Promise<void> | void,
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        let reported = -1;
+        let pending = Promise.resolve();
+        const stream = zip.generateInternalStream({
+            type: 'uint8array',
+            streamFiles: true,
+            compression: compression === 'deflate' ? 'DEFLATE' : 'STORE',
+        });
+        stream
+            .on('data', (chunk, metadata) => {
+                const written = write(chunk as Uint8Array<ArrayBuffer>);
+                if (written) {
+                    stream.pause();
+                    pending = pending.then(() => written).then(() => { stream.resume(); });
+                    pending.catch(reject);
+                }
+                // Chunks are small, so only whole-percent steps are passed on
+                if (Math.floor(metadata.percent) !== reported) {
+                    reported = Math.floor(metadata.percent);
+                    onPercent(metadata.percent);
+                }
+            })
+            .on('error', reject)
+            .on('end', () => pending.then(() => resolve(), reject))
+            .resume();
+    });
+}
+
+/**
+ * Builds an archive as a Blob. Every chunk is held until the archive is complete, so memory use
+ * is bounded by the archive's size; splitting is what keeps large exports in check on this path.
+ */
+async function generateZipBlob(zip: JSZip, compression: ZipCompression, onPercent: (percent: number) => void): Promise<Blob> {
+    const chunks: BlobPart[] = [];
+    await generateZip(zip, compression, onPercent, chunk => { chunks.push(chunk); });
+    return new Blob(chunks, { type: 'application/zip' });
+}
+
+const buildZip = async (items: ZipExportItem[], manifest: ManifestEntry[], manifestFormat: ManifestFormat): Promise<JSZip> => {
+    const zip = new JSZip();
+    for (const item of items) await item.addTo(zip);
+    buildManifestFiles(manifest, manifestFormat).forEach(({ name, content }) => zip.file(name, content));
+    return zip;
+};
+
+/**
+ * Writes the items into one or more ZIP archives and hands each to save as soon as it's built,
+ * so only one archive is held in memory at a time.
+ * The manifest covers every file and goes in the first archive.
+ * @param save Called once per archive with its blob and file name
+ * @returns The number of archives written
+ */
+export async function exportZipArchives(
+    items: ZipExportItem[],
+    options: ZipExportOptions,
+    save: (blob: Blob, fileName: string) => void,
+): Promise<number> {
+    const parts = splitIntoParts(items, options.splitBytes);
+    const archiveName = (index: number) => parts.length > 1
+        ? `${options.baseName}-part${index + 1}-of-${parts.length}.zip`
+        : `${options.baseName}.zip`;
+
+    const manifest = parts.flatMap((part, index) => part.flatMap(item => item.manifest.map(entry => ({
+        ...entry,
+        archive: parts.length > 1 ? archiveName(index) : undefined,
+    }))));
+
+    for (const [index, part] of parts.entries()) {
+        const zip = await buildZip(part, index === 0 ? manifest : [], options.manifest);
+        options.onProgress?.(index + 1, parts.length, 0);
+        const blob = await generateZipBlob(zip, options.compression, percent => options.onProgress?.(index + 1, parts.length, percent));
+        save(blob, archiveName(index));
+    }
+    return parts.length;
+}
+
+/**
+ * Writes every item into a single archive straight to a file as it's generated, so the archive
+ * is never held in memory as a whole. Used where the browser can open a file for writing.
+ * @param writable An open stream to the chosen file; closed when the archive is complete
+ */
+export async function writeZipArchive(
+    items: ZipExportItem[],
+    options: Omit<ZipExportOptions, 'baseName' | 'splitBytes'>,
+    writable: FileSystemWritableFileStream,
+): Promise<void> {
+    const zip = await buildZip(items, items.flatMap(item => item.manifest), options.manifest);
+    options.onProgress?.(1, 1, 0);
+    try {
+        await generateZip(zip, options.compression, percent => options.onProgress?.(1, 1, percent), chunk => writable.write(chunk));
+        await writable.close();
+    } catch (err) {
+        // Leaves no half-written archive behind
+        await writable.abort();
+        throw err;
+    }
+}
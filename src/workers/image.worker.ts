@@ -1,5 +1,28 @@
 // src/workers/image.worker.ts
-import { removeBackground, type Config } from "@imgly/background-removal";
+import { preload, removeBackground, segmentForeground, type Config } from "@imgly/background-removal";
+import { getMetadataSize, readImageMetadata, writeImageMetadata } from "../utils/imageMetadata";
+import { decodeInput } from "../utils/inputDecoding";
+import { hashFileContent, parseFilenameTemplate, templateUsesToken } from "../utils/filenameUtils";
+import { DEFAULT_FLOOD_FILL, removeBackgroundByFloodFill, type FloodFillSettings } from "../utils/floodFill";
+import {
+  applyOverrides,
+  postPipelineMessage,
+  readWorkerRequest,
+  type BackgroundSettings,
+  type ControlMessage,
+  type CropRect,
+  type FitOption,
+  type FocalPoint,
+  type ImageFormat,
+  type ImglyModel,
+  type PipelineStage,
+  type ProcessedImageResult,
+  type ProcessOptions,
+  type ProcessRequest,
+  type RemovalSettings,
+  type WatermarkPosition,
+  type WatermarkSettings,
+} from "../utils/pipeline";
 
 
 const progress: NonNullable<Config["progress"]> = (
@@ -7,7 +30,7 @@ const progress: NonNullable<Config["progress"]> = (
   current: number,
   total: number
 ) => {
-  self.postMessage({
+  postPipelineMessage(self, {
     type: "model-load-progress",
     key,
     current,
@@ -15,169 +38,699 @@ const progress: NonNullable<Config["progress"]> = (
   });
 };
 
-// --- Type Definitions ---
-type FitOption = 'contain' | 'cover' | 'crop';
-type ImageFormat = 'jpeg' | 'png' | 'webp';
+// imgly caches its inference session per config, so every call for a model must share one object.
+const modelConfigs = new Map<ImglyModel, Config>();
 
-interface ResizeOptions {
-  width: number;
-  height: number;
-  fit: FitOption;
-}
+// Each model is loaded lazily on the first image that needs it, then reused for the life of the worker.
+const modelsReady = new Map<ImglyModel, Promise<void>>();
+const ensureModelLoaded = async (model: ImglyModel): Promise<Config> => {
+  let config = modelConfigs.get(model);
+  if (!config) {
+    config = { model, progress };
+    modelConfigs.set(model, config);
+  }
+  let ready = modelsReady.get(model);
+  if (!ready) {
+    ready = preload(config).catch((err) => {
+      modelsReady.delete(model); // Allow a later image to retry the download
+      throw err;
+    });
+    modelsReady.set(model, ready);
+  }
+  await ready;
+  return config;
+};
 
-interface ProcessOptions {
-  resize?: ResizeOptions;
-  borderRadius?: number;
-  format: ImageFormat;
-  quality?: number; // 0-100 for jpeg/webp
-  removeBackground?: boolean;
-  filenameTemplate?: string;
-  presetName?: string;
-}
+// Uploaded images (watermark logo, background) are decoded once and shared by every image that uses the same data URL.
+const dataUrlImages = new Map<string, Promise<ImageBitmap>>();
+const loadDataUrlImage = (source: string): Promise<ImageBitmap> => {
+  let bitmap = dataUrlImages.get(source);
+  if (!bitmap) {
+    bitmap = fetch(source)
+      .then(response => response.blob())
+      .then(blob => createImageBitmap(blob));
+    bitmap.catch(() => dataUrlImages.delete(source)); // Let the next image retry
+    dataUrlImages.set(source, bitmap);
+  }
+  return bitmap;
+};
 
-// --- Worker Communication Types ---
-interface ProcessedImageResult {
-  blob: Blob;
-  filename: string;
-  width: number;
-  height: number;
-  size: number;
-  originalId: string;
-}
+const DEFAULT_REMOVAL: RemovalSettings = {
+  engine: 'imgly',
+  model: 'isnet_quint8',
+  output: 'foreground',
+  ...DEFAULT_FLOOD_FILL,
+};
 
-interface WorkerMessage {
-  images: { file: File; id: string }[];
-  options: ProcessOptions;
+// Everything drawn for one image; kept together so downscaled redraws match the first draw
+interface DrawSource {
+  bitmap: ImageBitmap;
+  focalPoint?: FocalPoint;
+  cropRect?: CropRect;
+  subjectBox?: CropRect; // Padded bounds of the foreground, for smart-cover
+  watermark: ImageBitmap | null;
+  backgroundImage?: ImageBitmap | null;
+  original?: ImageBitmap; // The image before background removal, for the blurred background
 }
 
+type Framing = Pick<DrawSource, 'focalPoint' | 'cropRect' | 'subjectBox'>;
+
+// --- Run Control ---
+// Control messages arrive while the batch loop is awaiting, and are only acted on between images.
+let isPaused = false;
+let isCancelled = false;
+let resumeWaiters: (() => void)[] = [];
+
+const releaseWaiters = () => {
+  resumeWaiters.forEach(resolve => resolve());
+  resumeWaiters = [];
+};
+
+const waitWhilePaused = (): Promise<void> => {
+  if (!isPaused) return Promise.resolve();
+  return new Promise(resolve => resumeWaiters.push(resolve));
+};
+
+const handleControlMessage = ({ type }: ControlMessage) => {
+  if (type === 'pause') {
+    isPaused = true;
+  } else if (type === 'resume') {
+    isPaused = false;
+    releaseWaiters();
+  } else if (type === 'cancel') {
+    isCancelled = true;
+    isPaused = false;
+    releaseWaiters();
+  }
+};
+
 // --- Main Worker Logic ---
-self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
-  const { images, options } = e.data;
-  const finalResults: ProcessedImageResult[] = [];
+// Kept synchronous so a message that doesn't match the schema throws here and fires the pool's
+// worker.onerror; thrown from an async handler it would only be an unhandled rejection and the batch would never end
+self.onmessage = (e: MessageEvent<unknown>) => {
+  const request = readWorkerRequest(e.data);
+  if ('type' in request) {
+    handleControlMessage(request);
+    return;
+  }
+  void processBatch(request);
+};
+
+async function processBatch({ images, options: batchOptions, variants }: ProcessRequest) {
   const totalCount = images.length;
   let processedCount = 0;
+  let failedCount = 0;
+  isPaused = false;
+  isCancelled = false;
 
   for (const image of images) {
+    await waitWhilePaused();
+    if (isCancelled) break;
+
+    const variantOptions = image.variant ? variants?.[image.variant] : undefined;
+    const options = applyOverrides(variantOptions ?? batchOptions, image.overrides);
+    // Tracks how far this image got so a failure can be reported against the right step
+    let stage: PipelineStage = 'decode';
+    // Full-resolution bitmaps are released once the image is done, whether or not it succeeded
+    let imageBitmap: ImageBitmap | undefined;
+    let original: ImageBitmap | undefined;
     try {
-      let processedFile: File | Blob = image.file;
-
-      // Remove background if requested using Imgly
-      if (options.removeBackground) {
-        processedFile = await removeBackground(image.file, {
-          model: "isnet_quint8",
-          progress,
-        });
+      const fileData = await image.file.arrayBuffer();
+      const metadata = await readImageMetadata(fileData);
+      const rotatedFromExif = metadata.orientation !== undefined && metadata.orientation > 1;
+      // HEIC and TIFF become PNG here; formats the browser reads natively pass straight through
+      const source = await decodeInput(image.file, image.page);
+      let processedFile: Blob = source;
+      const smartCover = options.resize?.fit === 'smart-cover';
+      let subjectMask: Blob | null = null;
+      const removal = options.removal ?? DEFAULT_REMOVAL;
+      const outputsMask = options.removeBackground === true && removal.output === 'mask';
+      const background = options.removeBackground && !outputsMask && options.background?.type !== 'transparent' ? options.background : undefined;
+
+      // Remove background if requested; smart cover only needs the mask
+      if (options.removeBackground || smartCover) {
+        // imgly drops EXIF, so hand it pixels that are already upright
+        if (rotatedFromExif) {
+          processedFile = await toUprightPng(source);
+        }
+        if (background?.type === 'blur') {
+          original = await createImageBitmap(processedFile, { imageOrientation: 'from-image' });
+        }
+        stage = 'background-removal';
+        // Either way the cutout's alpha is the subject mask
+        let cutout: Blob;
+        if (removal.engine === 'flood-fill') {
+          cutout = await floodFillCutout(processedFile, removal);
+        } else {
+          const config = await ensureModelLoaded(removal.model);
+          cutout = options.removeBackground && !outputsMask
+            ? await removeBackground(processedFile, config)
+            : await segmentForeground(processedFile, config);
+        }
+        if (outputsMask) {
+          subjectMask = cutout;
+          processedFile = await alphaToMaskImage(cutout);
+        } else if (options.removeBackground) {
+          processedFile = cutout;
+        } else {
+          subjectMask = cutout;
+        }
       }
 
+      stage = 'decode';
+      // The browser converts pixels to sRGB when decoding, so a kept ICC profile needs them left in its colour space.
+      // Cutouts and rotated copies have already been through an sRGB PNG, so their profile no longer applies
+      const keepsProfile = options.metadata === 'icc' && !!metadata.icc && processedFile === source;
+      const outputMetadata = keepsProfile ? metadata : { ...metadata, icc: undefined };
+      // Apply EXIF orientation explicitly rather than relying on the browser default
+      imageBitmap = await createImageBitmap(processedFile, {
+        imageOrientation: 'from-image',
+        colorSpaceConversion: keepsProfile ? 'none' : 'default',
+      });
+      const { width: originalWidth, height: originalHeight } = imageBitmap;
+
+      // With the background already removed, the image's own alpha is the mask
+      let subjectBox: CropRect | undefined;
+      if (smartCover) {
+        const maskBitmap = subjectMask ? await createImageBitmap(subjectMask) : imageBitmap;
+        subjectBox = padBox(findSubjectBounds(maskBitmap), options.subjectPadding ?? 0);
+        if (maskBitmap !== imageBitmap) maskBitmap.close();
+      }
 
-      const imageBitmap = await createImageBitmap(processedFile);
+      stage = 'draw';
+      // A mask is drawn as a plain opaque image: black wherever there's no subject, and nothing added on top
+      const drawOptions: ProcessOptions = outputsMask
+        ? { ...options, removeBackground: false, background: undefined, watermark: undefined, matte: '#000000' }
+        : options;
 
       const canvasWidth = options.resize?.width ?? imageBitmap.width;
       const canvasHeight = options.resize?.height ?? imageBitmap.height;
 
-      const canvas = new OffscreenCanvas(canvasWidth, canvasHeight);
-      const ctx = canvas.getContext('2d');
-      if (!ctx) continue;
-
-      // Determine effective format
+      // Determine effective format; a filled background makes JPEG possible again
       let effectiveFormat = options.format;
-      if (options.removeBackground && effectiveFormat === 'jpeg') effectiveFormat = 'png';
-
-      // Fill background if JPEG (no transparency)
-      if (effectiveFormat === 'jpeg') {
-        ctx.fillStyle = '#FFFFFF';
-        ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-      } else {
-        ctx.clearRect(0, 0, canvasWidth, canvasHeight);
-      }
+      if (drawOptions.removeBackground && !background && effectiveFormat === 'jpeg') effectiveFormat = 'png';
 
-      // Apply rounded corners as clipping
-      if (options.borderRadius && options.borderRadius > 0) {
-        drawRoundedRectPath(ctx, canvasWidth, canvasHeight, options.borderRadius);
-        ctx.clip();
-      }
+      const watermark = drawOptions.watermark?.type === 'image' && drawOptions.watermark.imageDataUrl
+        ? await loadDataUrlImage(drawOptions.watermark.imageDataUrl)
+        : null;
+      const backgroundImage = background?.type === 'image' && background.imageDataUrl
+        ? await loadDataUrlImage(background.imageDataUrl)
+        : null;
 
-      // Draw image with fit & crop
-      const { sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight } = calculateDrawDimensions(
-        imageBitmap.width, imageBitmap.height,
-        canvasWidth, canvasHeight,
-        options.resize?.fit ?? 'cover'
-      );
-      ctx.drawImage(imageBitmap, sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight);
+      const drawSource: DrawSource = {
+        bitmap: imageBitmap,
+        focalPoint: image.focalPoint,
+        cropRect: image.cropRect,
+        subjectBox,
+        watermark,
+        backgroundImage,
+        original,
+      };
+      let canvas = drawToCanvas(drawSource, canvasWidth, canvasHeight, drawOptions, effectiveFormat);
 
       // Encode final image
-      const blob = await canvas.convertToBlob({
-        type: `image/${effectiveFormat}`,
-        quality: effectiveFormat === 'png' ? undefined : options.quality ? options.quality / 100 : undefined,
-      });
-
-      if (!blob) continue;
+      stage = 'encode';
+      let blob: Blob;
+      let usedQuality = effectiveFormat === 'png' ? undefined : options.quality;
+      let targetSizeMet: boolean | undefined;
+      const metadataMode = options.metadata ?? 'strip';
+      if (options.maxFileSizeKB && options.maxFileSizeKB > 0) {
+        // Metadata is written after encoding, so the image itself has to fit in what it leaves
+        const metadataBytes = getMetadataSize(effectiveFormat, outputMetadata, metadataMode);
+        const fitted = await encodeWithinSize(drawSource, canvas, drawOptions, effectiveFormat, metadataBytes);
+        ({ blob, canvas, quality: usedQuality, targetSizeMet } = fitted);
+      } else {
+        blob = await encodeCanvas(canvas, effectiveFormat, usedQuality);
+      }
+      blob = await writeImageMetadata(blob, effectiveFormat, outputMetadata, metadataMode, canvas.width, canvas.height);
+      if (targetSizeMet && blob.size > options.maxFileSizeKB! * 1024) targetSizeMet = false;
       processedCount++;
 
-      const filename = generateFileName(
-        image.file.name,
-        image.id,
-        processedCount,
-        options.filenameTemplate,
-        effectiveFormat,
-        canvas.width,
-        canvas.height,
-        options.presetName
-      );
-
-      finalResults.push({
+      const template = options.filenameTemplate ?? "{name}_{index}";
+      const filename = parseFilenameTemplate(template, {
+        originalName: image.file.name,
+        originalWidth,
+        originalHeight,
+        outputWidth: canvas.width,
+        outputHeight: canvas.height,
+        outputFormat: effectiveFormat,
+        presetName: options.presetName ?? null,
+        timestamp: Date.now(),
+        index: image.index,
+        size: blob.size,
+        hash: templateUsesToken(template, 'hash') ? await hashFileContent(fileData) : undefined,
+      });
+
+      // Post each result as soon as it's ready so the blob isn't held here until the batch ends
+      const result: ProcessedImageResult = {
         blob,
         filename,
+        format: effectiveFormat,
         width: canvas.width,
         height: canvas.height,
         size: blob.size,
         originalId: image.id,
-      });
+        quality: usedQuality,
+        targetSizeMet,
+        rotatedFromExif,
+        variant: image.variant,
+      };
+      postPipelineMessage(self, { type: 'result', result });
 
-      self.postMessage({
+      postPipelineMessage(self, {
         type: 'progress',
         processedCount,
         totalCount,
         imageName: image.file.name,
       });
     } catch (err) {
-      console.error(`Failed to process image: ${image.file.name}`, err);
+      failedCount++;
+      postPipelineMessage(self, {
+        type: 'error',
+        imageId: image.id,
+        imageName: image.file.name,
+        variant: image.variant,
+        stage,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      imageBitmap?.close();
+      original?.close();
     }
   }
 
-  self.postMessage({ type: 'done', results: finalResults });
-};
+  postPipelineMessage(self, { type: 'done', processedCount, failedCount, cancelled: isCancelled });
+}
 
 // --- Helper Functions ---
-function generateFileName(
-  originalName: string,
-  originalId: string,
-  index: number,
-  template: string = "{name}_{index}",
+
+/**
+ * Re-encodes an image as PNG with its EXIF orientation applied to the pixels.
+ */
+async function toUprightPng(file: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get a 2D context to rotate the image');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas.convertToBlob({ type: 'image/png' });
+}
+
+/**
+ * Cuts out the subject with the flood-fill engine. Instant and model-free, but only
+ * reliable when the background is a fairly even colour.
+ */
+async function floodFillCutout(file: Blob, settings: FloodFillSettings): Promise<Blob> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get a 2D context to remove the background');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  removeBackgroundByFloodFill(imageData, settings);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+}
+
+/**
+ * Turns a mask's alpha channel into an opaque greyscale image, white where the subject is.
+ */
+async function alphaToMaskImage(mask: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(mask);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get a 2D context for the mask');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = data[i + 3];
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+}
+
+// Mask alpha above this counts as subject; low enough to keep soft edges like hair
+const SUBJECT_ALPHA_THRESHOLD = 64;
+// The mask is scanned at this size at most; bounds don't need full resolution
+const SUBJECT_SCAN_SIZE = 256;
+
+/**
+ * Finds the bounding box of the opaque area of a segmentation mask.
+ * @returns The box normalised to 0-1, or undefined if the mask is empty
+ */
+function findSubjectBounds(mask: ImageBitmap): CropRect | undefined {
+  const scale = Math.min(1, SUBJECT_SCAN_SIZE / Math.max(mask.width, mask.height));
+  const width = Math.max(1, Math.round(mask.width * scale));
+  const height = Math.max(1, Math.round(mask.height * scale));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get a 2D context to read the subject mask');
+  ctx.drawImage(mask, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] < SUBJECT_ALPHA_THRESHOLD) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return undefined;
+
+  return { x: minX / width, y: minY / height, width: (maxX - minX + 1) / width, height: (maxY - minY + 1) / height };
+}
+
+// Grows the box by a percentage of its size on every side; may extend past the image, which the draw step clamps
+function padBox(box: CropRect | undefined, paddingPercent: number): CropRect | undefined {
+  if (!box || paddingPercent <= 0) return box;
+  const padX = box.width * paddingPercent / 100;
+  const padY = box.height * paddingPercent / 100;
+  return { x: box.x - padX, y: box.y - padY, width: box.width + padX * 2, height: box.height + padY * 2 };
+}
+
+// Lowest quality the size search will try before giving up or downscaling
+const MIN_SEARCH_QUALITY = 10;
+// Upper bound on how many times the size search will shrink the image
+const MAX_DOWNSCALE_STEPS = 8;
+
+/**
+ * Draws the bitmap onto a new canvas with the background, rounded corners and fit applied,
+ * then the watermark on top (inside the rounded clip). A replacement background and the
+ * subject's drop shadow are only drawn for cutouts.
+ */
+function drawToCanvas(
+  source: DrawSource,
+  canvasWidth: number,
+  canvasHeight: number,
+  options: ProcessOptions,
+  format: ImageFormat,
+  radiusScale = 1
+): OffscreenCanvas {
+  const canvas = new OffscreenCanvas(canvasWidth, canvasHeight);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get a 2D context for the output canvas');
+
+  // Fill background if JPEG (no transparency) or a matte was asked for
+  const matte = options.matte ?? (format === 'jpeg' ? '#FFFFFF' : null);
+  if (matte) {
+    ctx.fillStyle = matte;
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  } else {
+    ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+  }
+
+  // Apply rounded corners as clipping
+  if (options.borderRadius && options.borderRadius > 0) {
+    drawRoundedRectPath(ctx, canvasWidth, canvasHeight, options.borderRadius * radiusScale);
+    ctx.clip();
+  }
+
+  const background = options.removeBackground && options.background?.type !== 'transparent' ? options.background : undefined;
+  if (background) {
+    drawBackgroundLayer(ctx, canvasWidth, canvasHeight, background, source, radiusScale);
+  }
+
+  // Draw image with fit & crop, inside the padding if there is any
+  const insetX = canvasWidth * (options.padding ?? 0) / 100;
+  const insetY = canvasHeight * (options.padding ?? 0) / 100;
+  const { sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight } = calculateDrawDimensions(
+    source.bitmap.width, source.bitmap.height,
+    Math.max(1, canvasWidth - insetX * 2), Math.max(1, canvasHeight - insetY * 2),
+    options.resize?.fit ?? 'cover',
+    source,
+    radiusScale
+  );
+  ctx.save();
+  if (background?.shadow) {
+    ctx.shadowColor = `rgba(0, 0, 0, ${background.shadowOpacity / 100})`;
+    ctx.shadowBlur = background.shadowBlur * radiusScale;
+    ctx.shadowOffsetY = background.shadowOffsetY * radiusScale;
+  }
+  ctx.drawImage(source.bitmap, sx, sy, sWidth, sHeight, insetX + dx, insetY + dy, dWidth, dHeight);
+  ctx.restore();
+
+  if (options.watermark && options.watermark.type !== 'none') {
+    drawWatermark(ctx, canvasWidth, canvasHeight, options.watermark, source.watermark, radiusScale);
+  }
+
+  return canvas;
+}
+
+/**
+ * Fills the canvas behind the cutout. Image and blur backgrounds are cover-fitted to the whole
+ * canvas (ignoring padding) so there are never transparent bands left around the subject.
+ * @param pixelScale Scales the blur radius along with the canvas when the size search downscales
+ */
+function drawBackgroundLayer(
+  ctx: OffscreenCanvasRenderingContext2D,
+  canvasWidth: number,
+  canvasHeight: number,
+  background: BackgroundSettings,
+  source: DrawSource,
+  pixelScale: number
+) {
+  ctx.save();
+  switch (background.type) {
+    case 'color':
+      ctx.fillStyle = background.color;
+      ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+      break;
+    case 'linear-gradient': {
+      // Angle follows CSS: 0deg runs bottom to top, 90deg left to right
+      const angle = background.gradientAngle * Math.PI / 180;
+      const halfLength = (Math.abs(canvasWidth * Math.sin(angle)) + Math.abs(canvasHeight * Math.cos(angle))) / 2;
+      const dx = Math.sin(angle) * halfLength;
+      const dy = -Math.cos(angle) * halfLength;
+      const gradient = ctx.createLinearGradient(canvasWidth / 2 - dx, canvasHeight / 2 - dy, canvasWidth / 2 + dx, canvasHeight / 2 + dy);
+      gradient.addColorStop(0, background.gradientFrom);
+      gradient.addColorStop(1, background.gradientTo);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+      break;
+    }
+    case 'radial-gradient': {
+      const radius = Math.hypot(canvasWidth, canvasHeight) / 2;
+      const gradient = ctx.createRadialGradient(canvasWidth / 2, canvasHeight / 2, 0, canvasWidth / 2, canvasHeight / 2, radius);
+      gradient.addColorStop(0, background.gradientFrom);
+      gradient.addColorStop(1, background.gradientTo);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+      break;
+    }
+    case 'image':
+      if (source.backgroundImage) {
+        const { sx, sy, sWidth, sHeight } = calculateDrawDimensions(
+          source.backgroundImage.width, source.backgroundImage.height, canvasWidth, canvasHeight, 'cover'
+        );
+        ctx.drawImage(source.backgroundImage, sx, sy, sWidth, sHeight, 0, 0, canvasWidth, canvasHeight);
+      }
+      break;
+    case 'blur':
+      if (source.original) {
+        // Blurring fades the edges towards transparent, so draw the copy larger than the canvas
+        const blur = Math.max(0, background.blurRadius * pixelScale);
+        const { sx, sy, sWidth, sHeight } = calculateDrawDimensions(
+          source.original.width, source.original.height, canvasWidth, canvasHeight, 'cover', { focalPoint: source.focalPoint }
+        );
+        ctx.filter = `blur(${blur}px)`;
+        ctx.drawImage(source.original, sx, sy, sWidth, sHeight, -blur * 2, -blur * 2, canvasWidth + blur * 4, canvasHeight + blur * 4);
+      }
+      break;
+  }
+  ctx.restore();
+}
+
+/**
+ * Draws a text or logo watermark at the chosen anchor, or repeated across the canvas when tiled.
+ * The mark is sized relative to the output width so it looks the same at every preset size.
+ * @param marginScale Scales the margin along with the canvas when the size search downscales
+ */
+function drawWatermark(
+  ctx: OffscreenCanvasRenderingContext2D,
+  canvasWidth: number,
+  canvasHeight: number,
+  watermark: WatermarkSettings,
+  watermarkBitmap: ImageBitmap | null,
+  marginScale: number
+) {
+  const targetWidth = Math.max(1, canvasWidth * watermark.scale / 100);
+  const margin = watermark.margin * marginScale;
+
+  let markWidth: number;
+  let markHeight: number;
+  let drawMark: (x: number, y: number) => void;
+
+  if (watermark.type === 'image') {
+    if (!watermarkBitmap) return;
+    markWidth = targetWidth;
+    markHeight = targetWidth * watermarkBitmap.height / watermarkBitmap.width;
+    drawMark = (x, y) => ctx.drawImage(watermarkBitmap, x, y, markWidth, markHeight);
+  } else {
+    const text = watermark.text.trim();
+    if (!text) return;
+    // Measure at a reference size, then scale the font so the text spans the target width
+    ctx.font = '100px sans-serif';
+    const fontSize = Math.max(1, 100 * targetWidth / ctx.measureText(text).width);
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = watermark.color;
+    markWidth = ctx.measureText(text).width;
+    markHeight = fontSize;
+    drawMark = (x, y) => ctx.fillText(text, x, y);
+  }
+
+  ctx.save();
+  ctx.globalAlpha = Math.min(100, Math.max(0, watermark.opacity)) / 100;
+
+  if (watermark.position === 'tiled') {
+    const stepX = markWidth + Math.max(margin, 1);
+    const stepY = markHeight + Math.max(margin, 1);
+    for (let y = 0; y < canvasHeight; y += stepY) {
+      // Offset alternate rows so the pattern doesn't form obvious columns
+      const rowOffset = Math.round(y / stepY) % 2 === 1 ? -stepX / 2 : 0;
+      for (let x = rowOffset; x < canvasWidth; x += stepX) drawMark(x, y);
+    }
+  } else {
+    const [vertical, horizontal] = getWatermarkAnchor(watermark.position);
+    const x = horizontal === 'left' ? margin
+      : horizontal === 'right' ? canvasWidth - markWidth - margin
+      : (canvasWidth - markWidth) / 2;
+    const y = vertical === 'top' ? margin
+      : vertical === 'bottom' ? canvasHeight - markHeight - margin
+      : (canvasHeight - markHeight) / 2;
+    drawMark(x, y);
+  }
+
+  ctx.restore();
+}
+
+function getWatermarkAnchor(position: Exclude<WatermarkPosition, 'tiled'>): ['top' | 'middle' | 'bottom', 'left' | 'center' | 'right'] {
+  switch (position) {
+    case 'top-left': return ['top', 'left'];
+    case 'top': return ['top', 'center'];
+    case 'top-right': return ['top', 'right'];
+    case 'left': return ['middle', 'left'];
+    case 'center': return ['middle', 'center'];
+    case 'right': return ['middle', 'right'];
+    case 'bottom-left': return ['bottom', 'left'];
+    case 'bottom': return ['bottom', 'center'];
+    case 'bottom-right': return ['bottom', 'right'];
+  }
+}
+
+// Whether convertToBlob can produce AVIF in this browser; found out on the first AVIF encode
+let nativeAvifSupport: boolean | null = null;
+
+/**
+ * Encodes the canvas and checks the blob really is the requested format.
+ * convertToBlob falls back to PNG for types it can't encode, which would leave
+ * the bytes disagreeing with the file extension, so a mismatch is treated as a failure.
+ * AVIF falls back to the bundled WASM encoder instead.
+ */
+async function encodeCanvas(canvas: OffscreenCanvas, format: ImageFormat, quality?: number): Promise<Blob> {
+  if (format === 'avif' && nativeAvifSupport === false) {
+    return encodeAvifWithWasm(canvas, quality);
+  }
+
+  const blob = await canvas.convertToBlob({
+    type: `image/${format}`,
+    quality: format === 'png' ? undefined : quality ? quality / 100 : undefined,
+  });
+  if (!blob) throw new Error(`The browser could not encode ${format.toUpperCase()}`);
+
+  if (blob.type !== `image/${format}`) {
+    if (format === 'avif') {
+      nativeAvifSupport = false;
+      return encodeAvifWithWasm(canvas, quality);
+    }
+    throw new Error(`The browser produced ${blob.type || 'an unknown type'} instead of ${format.toUpperCase()}`);
+  }
+  if (format === 'avif') nativeAvifSupport = true;
+  return blob;
+}
+
+async function encodeAvifWithWasm(canvas: OffscreenCanvas, quality?: number): Promise<Blob> {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not read pixels back from the output canvas');
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  // Loaded on demand so batches that never need it don't pay for the WASM download
+  const { default: encodeAvif } = await import('@jsquash/avif/encode');
+  const buffer = await encodeAvif(imageData, { quality: quality ?? 50 });
+  return new Blob([buffer], { type: 'image/avif' });
+}
+
+/**
+ * Encodes the canvas at the highest quality that fits under options.maxFileSizeKB.
+ * Binary-searches quality for jpeg/webp; PNG has no quality setting so only downscaling can help it.
+ * If nothing fits and downscaling is allowed, shrinks the canvas and searches again.
+ * @param reservedBytes Room to leave under the limit for metadata written afterwards
+ * @returns The chosen blob and the canvas/quality that produced it.
+ *   When the limit can't be met, returns the smallest attempt with targetSizeMet = false.
+ */
+async function encodeWithinSize(
+  source: DrawSource,
+  canvas: OffscreenCanvas,
+  options: ProcessOptions,
   format: ImageFormat,
-  width: number,
-  height: number,
-  presetName?: string
-): string {
-  const nameWithoutExt = originalName.split('.').slice(0, -1).join('.');
-  const ratio = (width / height).toFixed(2);
-  const timestamp = Date.now();
+  reservedBytes = 0
+): Promise<{ blob: Blob; canvas: OffscreenCanvas; quality?: number; targetSizeMet: boolean }> {
+  const maxBytes = (options.maxFileSizeKB ?? 0) * 1024 - reservedBytes;
+  const startQuality = options.quality ?? 90;
+  let smallest: { blob: Blob; canvas: OffscreenCanvas; quality?: number } | null = null;
+  let currentCanvas = canvas;
+
+  for (let step = 0; step <= MAX_DOWNSCALE_STEPS; step++) {
+    let stepSmallest: { blob: Blob; quality?: number };
+
+    if (format === 'png') {
+      const blob = await encodeCanvas(currentCanvas, format);
+      if (blob.size <= maxBytes) return { blob, canvas: currentCanvas, targetSizeMet: true };
+      stepSmallest = { blob };
+    } else {
+      const first = await encodeCanvas(currentCanvas, format, startQuality);
+      if (first.size <= maxBytes) return { blob: first, canvas: currentCanvas, quality: startQuality, targetSizeMet: true };
+
+      let low = MIN_SEARCH_QUALITY;
+      let high = startQuality - 1;
+      let best: { blob: Blob; quality: number } | null = null;
+      stepSmallest = { blob: first, quality: startQuality };
+      while (low <= high) {
+        const mid = Math.floor((low + high) / 2);
+        const blob = await encodeCanvas(currentCanvas, format, mid);
+        if (blob.size <= maxBytes) {
+          best = { blob, quality: mid };
+          low = mid + 1;
+        } else {
+          if (blob.size < stepSmallest.blob.size) stepSmallest = { blob, quality: mid };
+          high = mid - 1;
+        }
+      }
+      if (best) return { ...best, canvas: currentCanvas, targetSizeMet: true };
+    }
 
-  let fileName = template
-    .replace(/{name}/g, nameWithoutExt)
-    .replace(/{ext}/g, format)
-    .replace(/{index}/g, index.toString())
-    .replace(/{width}/g, width.toString())
-    .replace(/{height}/g, height.toString())
-    .replace(/{ratio}/g, ratio)
-    .replace(/{preset}/g, presetName || '')
-    .replace(/{timestamp}/g, timestamp.toString());
+    if (!smallest || stepSmallest.blob.size < smallest.blob.size) {
+      smallest = { ...stepSmallest, canvas: currentCanvas };
+    }
+    if (!options.allowDownscale) break;
 
-  if (!fileName.endsWith(`.${format}`)) {
-    fileName = `${fileName}.${format}`;
+    // Encoded size scales roughly with pixel count, so shrink each side by the square root of the overshoot
+    const scale = Math.min(0.9, Math.max(0.5, Math.sqrt(maxBytes / stepSmallest.blob.size)));
+    const nextWidth = Math.max(1, Math.round(currentCanvas.width * scale));
+    const nextHeight = Math.max(1, Math.round(currentCanvas.height * scale));
+    if (nextWidth === currentCanvas.width && nextHeight === currentCanvas.height) break;
+    currentCanvas = drawToCanvas(source, nextWidth, nextHeight, options, format, nextWidth / canvas.width);
   }
 
-  return fileName;
+  return { ...smallest!, targetSizeMet: false };
 }
 
 function drawRoundedRectPath(ctx: OffscreenCanvasRenderingContext2D, width: number, height: number, radius: number) {
@@ -195,23 +748,58 @@ function drawRoundedRectPath(ctx: OffscreenCanvasRenderingContext2D, width: numb
   ctx.closePath();
 }
 
+/**
+ * Works out which part of the image to draw and where.
+ * cover fills the canvas, keeping the focal point (default: centre) in frame.
+ * smart-cover fills the canvas with the smallest window that holds the subject box, falling back to cover without one.
+ * crop cuts out the manual crop rectangle and fills the canvas with it; without one it takes a
+ * canvas-sized window at the original resolution around the focal point (no scaling).
+ * @param pixelScale Scale applied to the output by the max file size search, so a 1:1 crop shrinks with it
+ */
 function calculateDrawDimensions(
-  imgWidth: number, imgHeight: number, canvasWidth: number, canvasHeight: number, fit: FitOption
+  imgWidth: number, imgHeight: number, canvasWidth: number, canvasHeight: number, fit: FitOption,
+  framing: Framing = {}, pixelScale = 1
 ) {
+  const { focalPoint, cropRect, subjectBox } = framing;
   const imgAspect = imgWidth / imgHeight;
   const canvasAspect = canvasWidth / canvasHeight;
+  const focusX = (focalPoint?.x ?? 0.5) * imgWidth;
+  const focusY = (focalPoint?.y ?? 0.5) * imgHeight;
   let sx = 0, sy = 0, sWidth = imgWidth, sHeight = imgHeight;
   let dx = 0, dy = 0, dWidth = canvasWidth, dHeight = canvasHeight;
 
   switch (fit) {
+    case 'smart-cover':
+      if (subjectBox) {
+        ({ sx, sy, sWidth, sHeight } = fitWindowToSubject(imgWidth, imgHeight, canvasAspect, subjectBox));
+        break;
+      }
+      // No subject found, so treat it as a plain cover
+      // falls through
     case 'cover':
+      ({ sx, sy, sWidth, sHeight } = fitWindowAround(0, 0, imgWidth, imgHeight, canvasAspect, focusX, focusY));
+      break;
     case 'crop':
-      if (imgAspect > canvasAspect) {
-        sWidth = imgHeight * canvasAspect;
-        sx = (imgWidth - sWidth) / 2;
+      if (cropRect) {
+        const rx = cropRect.x * imgWidth;
+        const ry = cropRect.y * imgHeight;
+        const rWidth = Math.max(1, cropRect.width * imgWidth);
+        const rHeight = Math.max(1, cropRect.height * imgHeight);
+        const inRect = focusX >= rx && focusX <= rx + rWidth && focusY >= ry && focusY <= ry + rHeight;
+        ({ sx, sy, sWidth, sHeight } = fitWindowAround(
+          rx, ry, rWidth, rHeight, canvasAspect,
+          inRect ? focusX : rx + rWidth / 2, inRect ? focusY : ry + rHeight / 2
+        ));
       } else {
-        sHeight = imgWidth / canvasAspect;
-        sy = (imgHeight - sHeight) / 2;
+        // Take source pixels 1:1; an image smaller than the canvas is centred with empty space around it
+        sWidth = Math.min(imgWidth, canvasWidth / pixelScale);
+        sHeight = Math.min(imgHeight, canvasHeight / pixelScale);
+        sx = clamp(focusX - sWidth / 2, 0, imgWidth - sWidth);
+        sy = clamp(focusY - sHeight / 2, 0, imgHeight - sHeight);
+        dWidth = sWidth * pixelScale;
+        dHeight = sHeight * pixelScale;
+        dx = (canvasWidth - dWidth) / 2;
+        dy = (canvasHeight - dHeight) / 2;
       }
       break;
     case 'contain':
@@ -226,3 +814,47 @@ function calculateDrawDimensions(
   }
   return { sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight };
 }
+
+// Largest window of the given aspect ratio inside the region, centred on the focus where the edges allow
+function fitWindowAround(
+  regionX: number, regionY: number, regionWidth: number, regionHeight: number,
+  aspect: number, focusX: number, focusY: number
+) {
+  let sWidth = regionWidth;
+  let sHeight = regionHeight;
+  if (regionWidth / regionHeight > aspect) {
+    sWidth = regionHeight * aspect;
+  } else {
+    sHeight = regionWidth / aspect;
+  }
+  return {
+    sx: clamp(focusX - sWidth / 2, regionX, regionX + regionWidth - sWidth),
+    sy: clamp(focusY - sHeight / 2, regionY, regionY + regionHeight - sHeight),
+    sWidth,
+    sHeight,
+  };
+}
+
+// Smallest window of the given aspect ratio that holds the subject, centred on it and kept inside the image
+function fitWindowToSubject(imgWidth: number, imgHeight: number, aspect: number, subjectBox: CropRect) {
+  const boxWidth = subjectBox.width * imgWidth;
+  const boxHeight = subjectBox.height * imgHeight;
+  const centerX = (subjectBox.x + subjectBox.width / 2) * imgWidth;
+  const centerY = (subjectBox.y + subjectBox.height / 2) * imgHeight;
+
+  const largest = fitWindowAround(0, 0, imgWidth, imgHeight, aspect, centerX, centerY);
+  const sWidth = Math.max(boxWidth, boxHeight * aspect);
+  if (sWidth >= largest.sWidth) return largest;
+
+  const sHeight = sWidth / aspect;
+  return {
+    sx: clamp(centerX - sWidth / 2, 0, imgWidth - sWidth),
+    sy: clamp(centerY - sHeight / 2, 0, imgHeight - sHeight),
+    sWidth,
+    sHeight,
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -1,191 +1,58 @@
 // src/workers/imageProcessor.worker.ts
 
 import { parseFilenameTemplate, getUniqueFilename } from '../utils/filenameUtils';
-import type { ImageFormat } from "@components/UploadDropzone";
+import { DEFAULT_FLOOD_FILL, removeBackgroundByFloodFill, type FloodFillSettings } from '../utils/floodFill';
+import { postPipelineMessage, readWorkerRequest, type PipelineStage, type ProcessedImageResult, type ProcessRequest } from '../utils/pipeline';
 
 
-type FitOption = 'contain' | 'cover' | 'crop';
-
-interface ProcessRequest {
-  images: { file: File; id: string }[]; // Updated to include id
-  options: {
-    resize: {
-      width: number;
-      height: number;
-      fit: FitOption;
-    };
-    borderRadius: number;
-    format: ImageFormat;
-    quality?: number;
-    removeBackground?: boolean;
-    filenameTemplate: string;
-    presetName: string | null;
-  };
-}
-
-interface ProcessedImageResult {
-  blob: Blob;
-  filename: string;
-  width: number;
-  height: number;
-  size: number;
-  originalId: string; // Add originalId to match results back
-}
-
-interface ProgressUpdateMessage {
-  type: 'progress';
-  processedCount: number;
-  totalCount: number;
-  imageName: string; // This is original name, not final filename
-}
-
-interface DoneMessage {
-  type: 'done';
-  results: ProcessedImageResult[];
-}
-
-/**
- * Calculates the Euclidean distance between two RGB colors.
- */
-const colorDistance = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number): number => {
-    return Math.sqrt(Math.pow(r1 - r2, 2) + Math.pow(g1 - g2, 2) + Math.pow(b1 - b2, 2));
-};
-
-/**
- * Heuristically determines the background color by sampling the image edges.
- * It assumes the most common color on the border is the background.
- */
-const getEdgeColor = (imageData: ImageData): [number, number, number] => {
-    const { width, height, data } = imageData;
-    const colorCounts: { [key: string]: number } = {};
-    const samplePoints = [
-        ...Array.from({ length: width }, (_, i) => i * 4), // Top edge
-        ...Array.from({ length: width }, (_, i) => (height - 1) * width * 4 + i * 4), // Bottom edge
-        ...Array.from({ length: height }, (_, i) => i * width * 4), // Left edge
-        ...Array.from({ length: height }, (_, i) => i * width * 4 + (width - 1) * 4), // Right edge
-    ];
-
-    let maxCount = 0;
-    let dominantColor: [number, number, number] = [255, 255, 255];
-
-    for (const i of samplePoints) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        const key = `${r},${g},${b}`;
-        colorCounts[key] = (colorCounts[key] || 0) + 1;
-        if (colorCounts[key] > maxCount) {
-            maxCount = colorCounts[key];
-            dominantColor = [r, g, b];
-        }
-    }
-    return dominantColor;
-};
-
 /**
  * Removes the background of an image using a flood-fill algorithm from the edges.
  * @param ctx The OffscreenCanvas 2D rendering context.
  * @param width The canvas width.
  * @param height The canvas height.
+ * @param settings Tolerance, feather and edge sampling.
  */
-const removeImageBackground = (ctx: OffscreenCanvasRenderingContext2D, width: number, height: number) => {
+const removeImageBackground = (ctx: OffscreenCanvasRenderingContext2D, width: number, height: number, settings: FloodFillSettings) => {
     const imageData = ctx.getImageData(0, 0, width, height);
-    const { data } = imageData;
-    const [bgR, bgG, bgB] = getEdgeColor(imageData);
-    const tolerance = 20; // Color distance tolerance
-
-    const backgroundMask = new Uint8Array(width * height).fill(0); // 0 = foreground, 1 = background, 2 = feathered edge
-    const queue: [number, number][] = [];
-
-    // Add all edge pixels to the queue to start the flood fill
-    for (let x = 0; x < width; x++) {
-        queue.push([x, 0]);
-        queue.push([x, height - 1]);
-    }
-    for (let y = 1; y < height - 1; y++) {
-        queue.push([0, y]);
-        queue.push([width - 1, y]);
-    }
-    
-    // Mark initial queue as background
-    queue.forEach(([x, y]) => backgroundMask[y * width + x] = 1);
-    
-    // Flood fill from the edges
-    let head = 0;
-    while(head < queue.length) {
-        const [x, y] = queue[head++];
-        
-        // Check neighbors (N, S, E, W)
-        const neighbors: [number, number][] = [[x, y - 1], [x, y + 1], [x - 1, y], [x + 1, y]];
-        for(const [nx, ny] of neighbors) {
-            if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-                const index = ny * width + nx;
-                if (backgroundMask[index] === 0) { // If not already visited
-                    const dataIndex = index * 4;
-                    const r = data[dataIndex];
-                    const g = data[dataIndex + 1];
-                    const b = data[dataIndex + 2];
-                    if (colorDistance(r, g, b, bgR, bgG, bgB) < tolerance) {
-                        backgroundMask[index] = 1;
-                        queue.push([nx, ny]);
-                    }
-                }
-            }
-        }
-    }
-
-    // Feather the edges
-    for (let i = 0; i < backgroundMask.length; i++) {
-        if (backgroundMask[i] === 0) { // If it's a foreground pixel
-            const x = i % width;
-            const y = Math.floor(i / width);
-            const neighbors: [number, number][] = [[x-1, y], [x+1, y], [x, y-1], [x, y+1]];
-            for (const [nx, ny] of neighbors) {
-                if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-                    if (backgroundMask[ny * width + nx] === 1) {
-                        backgroundMask[i] = 2; // Mark as feathered edge
-                        break;
-                    }
-                }
-            }
-        }
-    }
-    
-    // Apply the mask to the image data
-    for (let i = 0; i < backgroundMask.length; i++) {
-        const maskValue = backgroundMask[i];
-        if (maskValue === 1) { // Background
-            data[i * 4 + 3] = 0;
-        } else if (maskValue === 2) { // Feathered Edge
-            data[i * 4 + 3] = Math.floor(data[i * 4 + 3] * 0.5);
-        }
-    }
-    
+    removeBackgroundByFloodFill(imageData, settings);
     ctx.putImageData(imageData, 0, 0);
 };
 
-self.onmessage = async (event: MessageEvent<ProcessRequest>) => {
-  const { images, options } = event.data;
+// Synchronous for the same reason as image.worker: a malformed request has to throw where worker.onerror sees it
+self.onmessage = (event: MessageEvent<unknown>) => {
+  const request = readWorkerRequest(event.data);
+  if ('type' in request) return; // Batches here are short and always run to completion
+  void processBatch(request);
+};
+
+async function processBatch({ images, options }: ProcessRequest) {
   const totalCount = images.length;
-  const results: ProcessedImageResult[] = [];
+  let processedCount = 0;
+  let failedCount = 0;
   const timestamp = Date.now(); // Get timestamp once for the batch
 
   // Keep track of generated filenames to ensure uniqueness
   const generatedFilenames = new Set<string>();
 
   for (let i = 0; i < totalCount; i++) {
-    const image = images[i]; // image now has { file: File, id: string }
+    const image = images[i];
     if (!image) continue;
 
+    // Tracks how far this image got so a failure can be reported against the right step
+    let stage: PipelineStage = 'decode';
+    let bitmap: ImageBitmap | undefined;
     try {
-      const bitmap = await createImageBitmap(image.file);
-      const { resize, borderRadius, quality, removeBackground, filenameTemplate, presetName } = options;
+      bitmap = await createImageBitmap(image.file);
+      const { quality, removeBackground, removal } = options;
+      const resize = options.resize ?? { width: bitmap.width, height: bitmap.height, fit: 'contain' };
+      const borderRadius = options.borderRadius ?? 0;
       let { format } = options;
 
       // --- Canvas Setup ---
+      stage = 'draw';
       const canvas = new OffscreenCanvas(resize.width, resize.height);
       const ctx = canvas.getContext('2d');
-      if (!ctx) continue;
+      if (!ctx) throw new Error('Could not get a 2D context for the output canvas');
 
       // --- 1. Resize & Fit ---
       const imgAspectRatio = bitmap.width / bitmap.height;
@@ -214,6 +81,7 @@ self.onmessage = async (event: MessageEvent<ProcessRequest>) => {
             ctx.drawImage(bitmap, destX, destY, destWidth, destHeight);
             break;
         case 'cover':
+        case 'smart-cover': // No subject detection here, so this is a centred cover
             if (imgAspectRatio < canvasAspectRatio) { // Image is taller than canvas
                 sourceWidth = bitmap.height * canvasAspectRatio;
                 sourceX = (bitmap.width - sourceWidth) / 2;
@@ -240,7 +108,8 @@ self.onmessage = async (event: MessageEvent<ProcessRequest>) => {
 
       // --- 2. Remove Background (if enabled) ---
       if (removeBackground) {
-        removeImageBackground(ctx, canvas.width, canvas.height);
+        stage = 'background-removal';
+        removeImageBackground(ctx, canvas.width, canvas.height, removal ?? DEFAULT_FLOOD_FILL);
         // Force format to one that supports alpha transparency
         if (format === 'jpeg') {
           format = 'png';
@@ -248,6 +117,7 @@ self.onmessage = async (event: MessageEvent<ProcessRequest>) => {
       }
 
       // --- 3. Rounded Corners ---
+      stage = 'draw';
       if (borderRadius > 0) {
           ctx.globalCompositeOperation = 'destination-in';
           ctx.fillStyle = 'black';
@@ -266,53 +136,68 @@ self.onmessage = async (event: MessageEvent<ProcessRequest>) => {
       }
 
       // --- 5. Convert to Blob ---
+      stage = 'encode';
       const blob = await canvas.convertToBlob({
         type: `image/${format}`,
         quality: quality ? quality / 100 : undefined,
       });
 
-      if (blob) {
-        // --- Generate Filename ---
-        const baseFilename = parseFilenameTemplate(filenameTemplate, {
-            originalName: image.file.name,
-            outputWidth: canvas.width,
-            outputHeight: canvas.height,
-            outputFormat: format,
-            presetName: presetName,
-            timestamp: timestamp,
-            index: i,
-        });
-
-        // Ensure unique filename within the current batch
-        const finalFilename = getUniqueFilename(baseFilename, generatedFilenames);
-        generatedFilenames.add(finalFilename); // Add to the set for future uniqueness checks
+      if (!blob) throw new Error(`The browser could not encode ${format.toUpperCase()}`);
+      // Unsupported types come back as PNG rather than failing; don't name PNG bytes as something else
+      if (blob.type !== `image/${format}`) {
+        throw new Error(`The browser produced ${blob.type || 'an unknown type'} instead of ${format.toUpperCase()}`);
+      }
 
-        const result: ProcessedImageResult = {
-            blob,
-            filename: finalFilename,
-            width: canvas.width,
-            height: canvas.height,
-            size: blob.size,
-            originalId: image.id, // Include originalId
-        };
-        results.push(result);
+      // --- Generate Filename ---
+      const baseFilename = parseFilenameTemplate(options.filenameTemplate ?? '{name}_{index}', {
+          originalName: image.file.name,
+          originalWidth: bitmap.width,
+          originalHeight: bitmap.height,
+          outputWidth: canvas.width,
+          outputHeight: canvas.height,
+          outputFormat: format,
+          presetName: options.presetName ?? null,
+          timestamp: timestamp,
+          index: image.index,
+          size: blob.size,
+      });
 
-        self.postMessage({
-          type: 'progress',
-          processedCount: i + 1,
-          totalCount,
-          imageName: image.file.name, // Still sending original name for progress
-        } as ProgressUpdateMessage);
-      }
+      // Ensure unique filename within the current batch
+      const finalFilename = getUniqueFilename(baseFilename, generatedFilenames);
+
+      const result: ProcessedImageResult = {
+          blob,
+          filename: finalFilename,
+          format,
+          width: canvas.width,
+          height: canvas.height,
+          size: blob.size,
+          originalId: image.id,
+          variant: image.variant,
+      };
+      postPipelineMessage(self, { type: 'result', result });
+      processedCount++;
+
+      postPipelineMessage(self, {
+        type: 'progress',
+        processedCount: processedCount + failedCount,
+        totalCount,
+        imageName: image.file.name,
+      });
     } catch (error) {
-      console.error('Error processing image:', image.file.name, error);
-      // If an error occurs, we might still want to report progress or an error for this specific image
-      // For now, it just logs and skips this image, meaning it won't be in `results`.
+      failedCount++;
+      postPipelineMessage(self, {
+        type: 'error',
+        imageId: image.id,
+        imageName: image.file.name,
+        variant: image.variant,
+        stage,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      bitmap?.close();
     }
   }
 
-  self.postMessage({
-    type: 'done',
-    results,
-  } as DoneMessage);
-};
\ No newline at end of file
+  postPipelineMessage(self, { type: 'done', processedCount, failedCount, cancelled: false });
+}
\ No newline at end of file